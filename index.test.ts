@@ -0,0 +1,196 @@
+import { describe, expect, it } from 'vitest';
+import {
+    applyMergePlan,
+    buildAttendanceMatrixRows,
+    findHeldServices,
+    findHeldSundays,
+    findLongTermAbsentees,
+    getHeldServiceRecords,
+    planMergeImport,
+    validateSpreadsheetRows,
+} from './index.tsx';
+import type { ColumnMapping, Member, ServiceType } from './index.tsx';
+
+const SERVICES: ServiceType[] = [{ id: 'sun-1', name: '주일 1부', dayOfWeek: 0 }];
+// The Sundays of January 2026 and the first one in February.
+const SUNDAYS = ['2026-01-04', '2026-01-11', '2026-01-18', '2026-01-25', '2026-02-01'];
+
+const makeMember = (id: number, name: string, statuses: Record<string, string>, extra: Partial<Member> = {}): Member => ({
+    id,
+    name,
+    position: '성도',
+    phone: '',
+    attendance: Object.fromEntries(Object.entries(statuses).map(([date, status]) => [date, { 'sun-1': status }])) as Member['attendance'],
+    ...extra,
+});
+
+describe('getHeldServiceRecords', () => {
+    it('counts an unmarked held service as 결석 from the registration date on', () => {
+        const regular = makeMember(1, '김철수', { '2026-01-04': '출석', '2026-01-11': '출석', '2026-01-18': '출석' });
+        const newcomer = makeMember(2, '이영희', { '2026-01-18': '출석' }, { registeredDate: '2026-01-11' });
+        const held = findHeldServices([regular, newcomer], SERVICES, []);
+
+        expect(getHeldServiceRecords(newcomer, held, '2026-01-01', '2026-12-31')).toEqual([
+            { date: '2026-01-11', serviceId: 'sun-1', status: '결석' },
+            { date: '2026-01-18', serviceId: 'sun-1', status: '출석' },
+        ]);
+    });
+
+    it('counts nothing for a member with neither a registration date nor records', () => {
+        const regular = makeMember(1, '김철수', { '2026-01-04': '출석', '2026-01-11': '출석' });
+        const added = makeMember(2, '이영희', {});
+
+        expect(getHeldServiceRecords(added, findHeldServices([regular, added], SERVICES, []), '2026-01-01', '2026-12-31')).toEqual([]);
+    });
+
+    it('leaves out cancelled days and records on another weekday', () => {
+        const member = makeMember(1, '김철수', { '2026-01-01': '출석', '2026-01-04': '출석', '2026-01-11': '결석', '2026-01-18': '출석' });
+        const held = findHeldServices([member], SERVICES, [{ date: '2026-01-11', kind: '휴예배' }]);
+
+        expect(getHeldServiceRecords(member, held, '2026-01-01', '2026-12-31').map(record => record.date)).toEqual(['2026-01-04', '2026-01-18']);
+    });
+});
+
+describe('buildAttendanceMatrixRows', () => {
+    it('leaves out cancelled Sundays and counts unmarked held services as absences', () => {
+        const regular = makeMember(1, '김철수', { '2026-01-04': '출석', '2026-01-11': '출석', '2026-01-18': '출석' });
+        const partial = makeMember(2, '이영희', { '2026-01-04': '출석' });
+        const members = [regular, partial];
+        const specialDays = [{ date: '2026-01-25', kind: '휴예배' as const }];
+        const rows = buildAttendanceMatrixRows(members, SERVICES[0], findHeldServices(members, SERVICES, specialDays), specialDays, '2026-01-01', '2026-01-31');
+
+        expect(rows[0]).toEqual(['이름', '직분', '전화번호', '2026-01-04', '2026-01-11', '2026-01-18', '출석', '출석률']);
+        expect(rows[2]).toEqual(['이영희', '성도', '', '출석', '', '', 1, '33%']);
+    });
+});
+
+describe('findLongTermAbsentees', () => {
+    it('counts absent Sundays back to the last attendance and skips excused ones', () => {
+        const regular = makeMember(1, '김철수', Object.fromEntries(SUNDAYS.map(date => [date, '출석'])));
+        const absentee = makeMember(2, '이영희', { '2026-01-04': '출석', '2026-01-11': '병결' });
+        const members = [regular, absentee];
+        const heldSundays = findHeldSundays(findHeldServices(members, SERVICES, []), SERVICES, '2026-02-01');
+
+        const absentees = findLongTermAbsentees(members, SERVICES, heldSundays, 3);
+        expect(absentees).toHaveLength(1);
+        expect(absentees[0]).toMatchObject({ member: absentee, consecutiveAbsences: 3, absentSince: '2026-01-18', lastAttended: '2026-01-04' });
+    });
+
+    it('only counts Sundays from the registration date or first record on', () => {
+        const regular = makeMember(1, '김철수', Object.fromEntries(SUNDAYS.map(date => [date, '출석'])));
+        const registered = makeMember(2, '이영희', {}, { registeredDate: '2026-01-25' });
+        const added = makeMember(3, '박민수', {});
+        const lateStarter = makeMember(4, '최수진', { '2026-01-18': '결석' });
+        const members = [regular, registered, added, lateStarter];
+        const heldSundays = findHeldSundays(findHeldServices(members, SERVICES, []), SERVICES, '2026-02-01');
+
+        expect(findLongTermAbsentees(members, SERVICES, heldSundays, 1).map(info => [info.member.name, info.consecutiveAbsences])).toEqual([
+            ['최수진', 3],
+            ['이영희', 2],
+        ]);
+    });
+});
+
+describe('validateSpreadsheetRows', () => {
+    const mappings: ColumnMapping[] = ['name', 'position', 'phone', 'date:2026-01-04'];
+
+    it('turns rows into members with attendance for the chosen service', () => {
+        const { isValid, validatedMembers } = validateSpreadsheetRows([
+            ['홍길동', '집사', '01012345678', 'O'],
+            ['김철수', '', '', 'X'],
+        ], mappings, 'sun-1');
+
+        expect(isValid).toBe(true);
+        expect(validatedMembers).toMatchObject([
+            { name: '홍길동', position: '집사', phone: '010-1234-5678', attendance: { '2026-01-04': { 'sun-1': '출석' } } },
+            { name: '김철수', position: '성도', phone: '', attendance: { '2026-01-04': { 'sun-1': '결석' } } },
+        ]);
+    });
+
+    it('reports unreadable cells by row and requires a name column', () => {
+        expect(validateSpreadsheetRows([['홍길동', '', '', '?']], mappings, 'sun-1').errors).toEqual([
+            "2행(홍길동)의 '2026-01-04' 날짜의 출석 데이터('?')가 올바르지 않습니다.",
+        ]);
+        expect(validateSpreadsheetRows([['홍길동']], ['position'], 'sun-1').isValid).toBe(false);
+    });
+});
+
+describe('planMergeImport', () => {
+    it('adds new members, fills in new records and lists differing ones as conflicts', () => {
+        const kim = makeMember(1, '김철수', { '2026-01-04': '출석' });
+        const lee = makeMember(2, '이영희', { '2026-01-04': '출석' });
+        const plan = planMergeImport([kim, lee], [
+            makeMember(1, '김철수', { '2026-01-04': '결석', '2026-01-11': '출석' }),
+            makeMember(3, '박민수', { '2026-01-11': '출석' }),
+        ]);
+
+        expect(plan.added.map(m => m.name)).toEqual(['박민수']);
+        expect(plan.updated).toEqual([{ id: 1, name: '김철수', newRecords: 1 }]);
+        expect(plan.conflicts).toMatchObject([{ memberId: 1, kind: 'attendance', date: '2026-01-04', current: '출석', incoming: '결석' }]);
+        expect(plan.merged.find(m => m.id === 1)?.attendance['2026-01-11']).toEqual({ 'sun-1': '출석' });
+        // Untouched members keep their identity, so they aren't rewritten on save.
+        expect(plan.merged.find(m => m.id === 2)).toBe(lee);
+    });
+
+    it('adds spreadsheet rows as new members instead of merging them into the member with the same small id', () => {
+        const kim = makeMember(1, '김철수', { '2026-01-04': '출석' });
+        const lee = makeMember(2, '이영희', {}, { phone: '010-1111-2222' });
+        const { validatedMembers } = validateSpreadsheetRows([
+            ['박민수', 'O'],
+            ['이영희', 'O'],
+        ], ['name', 'date:2026-01-11'], 'sun-1');
+        const plan = planMergeImport([kim, lee], validatedMembers!);
+
+        expect(plan.idMatches).toEqual([]);
+        expect(plan.added).toMatchObject([{ id: 3, name: '박민수', attendance: { '2026-01-11': { 'sun-1': '출석' } } }]);
+        expect(plan.merged.find(m => m.id === 1)).toBe(kim);
+        // Without a phone column a row matches the one member of that name.
+        expect(plan.updated).toEqual([{ id: 2, name: '이영희', newRecords: 1 }]);
+    });
+
+    it('carries over excuses, 새가족 교육 weeks and the visitor link, listing overlapping excuses as conflicts', () => {
+        const kim = makeMember(1, '김철수', {}, {
+            excuses: [{ id: 1, status: '병결', from: '2026-01-01', to: '2026-01-10' }],
+            newFamilyEducation: { '1주차': '2026-01-04' },
+        });
+        const incoming = makeMember(1, '김철수', {}, {
+            excuses: [
+                { id: 1, status: '출장/여행', from: '2026-01-05', to: '2026-01-12' },
+                { id: 2, status: '군복무', from: '2026-03-01', to: '2026-12-31' },
+            ],
+            newFamilyEducation: { '1주차': '2026-01-11', '2주차': '2026-01-18' },
+            visitorId: 7,
+        });
+        const plan = planMergeImport([kim], [incoming]);
+        const merged = plan.merged[0];
+
+        expect(merged.excuses).toEqual([
+            { id: 1, status: '병결', from: '2026-01-01', to: '2026-01-10' },
+            { id: 2, status: '군복무', from: '2026-03-01', to: '2026-12-31' },
+        ]);
+        expect(merged.newFamilyEducation).toEqual({ '1주차': '2026-01-04', '2주차': '2026-01-18' });
+        expect(merged.visitorId).toBe(7);
+        expect(plan.conflicts).toMatchObject([{ kind: 'excuse', current: '병결 2026-01-01 ~ 2026-01-10', incoming: '출장/여행 2026-01-05 ~ 2026-01-12' }]);
+
+        const [resolved] = applyMergePlan(plan, new Set([plan.conflicts[0].key]));
+        expect(resolved.excuses).toEqual([
+            { id: 2, status: '군복무', from: '2026-03-01', to: '2026-12-31' },
+            { id: 3, status: '출장/여행', from: '2026-01-05', to: '2026-01-12' },
+        ]);
+    });
+
+    it('merges a same-id member with another name only once confirmed', () => {
+        const kim = makeMember(1, '김철수', { '2026-01-04': '출석' });
+        const incoming = [makeMember(1, '박민수', { '2026-01-11': '출석' })];
+
+        const unconfirmed = planMergeImport([kim], incoming);
+        expect(unconfirmed.idMatches).toEqual([{ incoming: incoming[0], existing: kim }]);
+        expect(unconfirmed.added).toMatchObject([{ id: 2, name: '박민수' }]);
+        expect(unconfirmed.merged.find(m => m.id === 1)).toBe(kim);
+
+        const confirmed = planMergeImport([kim], incoming, new Set([1]));
+        expect(confirmed.added).toEqual([]);
+        expect(confirmed.updated).toEqual([{ id: 1, name: '김철수', newRecords: 1 }]);
+        expect(confirmed.conflicts).toMatchObject([{ memberId: 1, kind: 'name', current: '김철수', incoming: '박민수' }]);
+    });
+});
@@ -3,35 +3,742 @@ import { createRoot } from 'react-dom/client';
 import './index.css';
 
 const POSITIONS = ['목사', '부목사', '사모', '전도사', '장로', '권사', '집사', '성도', '청년', '학생', '주일학교', '기타'] as const;
-const ATTENDANCE_STATUSES = ['출석', '결석'] as const;
+const ATTENDANCE_STATUSES = ['출석', '결석', '지각', '온라인 예배', '병결', '출장/여행', '군복무'] as const;
+const EXCUSE_STATUSES = ['병결', '출장/여행', '군복무'] as const; // usable for date-range excuses
+const FOLLOW_UP_TYPES = ['심방', '전화', '기도 제목', '기타'] as const;
+const GROUP_KINDS = ['구역', '셀', '부서'] as const;
+const MEMBERSHIP_STATUSES = ['재적', '새가족', '이명', '별세', '휴면'] as const;
+const INACTIVE_MEMBERSHIP_STATUSES = ['이명', '별세', '휴면'] as const;
+const VISIT_SOURCES = ['지인 소개', '전도', '인터넷 검색', 'SNS', '현수막·전단', '지나가다 방문', '기타'] as const;
+const NEW_FAMILY_STEPS = ['1주차', '2주차', '3주차', '4주차'] as const;
+const SPECIAL_DAY_KINDS = ['휴예배', '연합예배', '야외예배', '송구영신예배', '부활절 새벽예배', '추석 예배', '특별새벽기도'] as const;
+const GENDERS = ['남', '여'] as const;
+const CALENDAR_TYPES = ['양력', '음력'] as const;
+const ACTIVE_MEMBERS_FILTER = '활동 교인';
+const PHOTO_MAX_SIZE = 320; // px, longest side
+const SMS_BATCH_SIZE = 20; // many phones refuse or truncate group messages with more recipients
+const MESSAGE_PLACEHOLDERS = ['{이름}', '{직분}', '{결석횟수}', '{날짜}'] as const;
 const ALL_FILTER = '전체';
+// localStorage keys used before the IndexedDB backend. They are only read by the schema migration.
 const LOCAL_STORAGE_KEY = 'churchAttendanceMembers';
+const SERVICES_STORAGE_KEY = 'churchAttendanceServices';
+const ABSENTEE_THRESHOLD_STORAGE_KEY = 'churchAttendanceAbsenteeThreshold';
+const CHANGE_LOG_STORAGE_KEY = 'churchAttendanceChangeLog';
+const EDITOR_NAME_STORAGE_KEY = 'churchAttendanceEditorName';
+const DB_NAME = 'churchAttendance';
+const DB_SCHEMA_VERSION = 5;
+const DAILY_SNAPSHOT_COUNT = 7;
+const MONTHLY_SNAPSHOT_COUNT = 12;
+const MAX_UNDO_STEPS = 50;
+const MAX_CHANGE_LOG_ENTRIES = 5000;
+const MAX_CHANGE_LOG_DETAILS = 30;
+const DEFAULT_ABSENTEE_THRESHOLD = 4;
 const ITEMS_PER_PAGE = 15;
+const PAGE_SIZE_OPTIONS = [15, 30, 50, 100];
+const SHOW_ALL_PAGE_SIZE = 0;
+const WEEKDAY_NAMES = ['일', '월', '화', '수', '목', '금', '토'] as const;
 
 type Position = typeof POSITIONS[number];
 type AttendanceStatus = typeof ATTENDANCE_STATUSES[number];
+type ExcuseStatus = typeof EXCUSE_STATUSES[number];
+// How a status enters attendance rates: 'present' counts as attended and 'absent' as missed,
+// while 'excused' services are left out of the rate altogether.
+type AttendanceOutcome = 'present' | 'absent' | 'excused';
+type DayAttendance = Record<string, AttendanceStatus>; // service id as key
+type FollowUpType = typeof FOLLOW_UP_TYPES[number];
+type GroupKind = typeof GROUP_KINDS[number];
+type MembershipStatus = typeof MEMBERSHIP_STATUSES[number];
+type VisitSource = typeof VISIT_SOURCES[number];
+type NewFamilyStep = typeof NEW_FAMILY_STEPS[number];
+type NewFamilyEducation = Partial<Record<NewFamilyStep, string>>; // completion date of each 새가족 교육 week
+type SpecialDayKind = typeof SPECIAL_DAY_KINDS[number];
+// 'cancelled' days drop out of every rate; 'joint' services (연합·야외) replace the usual ones;
+// 'special' services are held in addition to the regular schedule.
+type SpecialDayCategory = 'cancelled' | 'joint' | 'special';
+type Gender = typeof GENDERS[number];
+type CalendarType = typeof CALENDAR_TYPES[number];
+
+interface ServiceType {
+  id: string;
+  name: string;
+  dayOfWeek: number; // 0 is Sunday
+}
+
+// A date marked in the yearly calendar. Attendance is still recorded under the service selected on that day.
+interface SpecialDay {
+  date: string;
+  kind: SpecialDayKind;
+  note?: string;
+}
 
 interface Member {
   id: number;
   name: string;
   position: Position;
   phone: string;
-  attendance: Record<string, AttendanceStatus>; // date string 'YYYY-MM-DD' as key
+  attendance: Record<string, DayAttendance>; // date string 'YYYY-MM-DD' as key
+  followUps?: FollowUpNote[];
+  excuses?: AttendanceExcuse[];
+  householdHeadId?: number; // id of the head of household; equal to the member's own id for the head
+  groupIds?: string[];
+  membershipStatus?: MembershipStatus; // missing in older data, which is treated as 재적
+  birthDate?: string;
+  birthCalendar?: CalendarType; // missing means 양력; for 음력 the birth date holds the lunar month and day
+  gender?: Gender;
+  address?: string;
+  registeredDate?: string; // 등록일
+  baptismDate?: string;
+  notes?: string;
+  photo?: string; // data URL, downscaled to PHOTO_MAX_SIZE before saving
+  newFamilyEducation?: NewFamilyEducation;
+  visitorId?: number; // the visitor record the member was registered from
+}
+
+type MemberProfile = Pick<Member, 'membershipStatus' | 'birthDate' | 'birthCalendar' | 'gender' | 'address' | 'registeredDate' | 'baptismDate' | 'notes' | 'photo'>;
+
+const PROFILE_FIELD_LABELS: Record<keyof MemberProfile, string> = {
+  membershipStatus: '교적 상태',
+  birthDate: '생년월일',
+  birthCalendar: '양력/음력',
+  gender: '성별',
+  address: '주소',
+  registeredDate: '등록일',
+  baptismDate: '세례일',
+  notes: '메모',
+  photo: '사진',
+};
+const PROFILE_DATE_FIELDS = ['birthDate', 'registeredDate', 'baptismDate'] as const;
+
+// A period such as a hospital stay during which the member's services count as excused.
+interface AttendanceExcuse {
+  id: number;
+  status: ExcuseStatus;
+  from: string;
+  to: string; // inclusive
+  note?: string;
+}
+
+interface MemberGroup {
+  id: string;
+  name: string;
+  kind: GroupKind;
+  leaderId?: number;
+}
+
+interface FollowUpNote {
+  id: number;
+  date: string;
+  type: FollowUpType;
+  note: string;
+}
+
+// Visitors are kept apart from the roster until they register, so they never change members' rates.
+interface Visitor {
+  id: number;
+  name: string;
+  phone: string;
+  inviter?: string; // 인도자, usually a member's name
+  source?: VisitSource; // how they heard about the church
+  notes?: string;
+  visits: { date: string; serviceId: string }[];
+  education?: NewFamilyEducation;
+}
+
+interface MessageTemplate {
+  id: string;
+  name: string;
+  body: string;
+}
+
+const DEFAULT_MESSAGE_TEMPLATES: MessageTemplate[] = [
+  { id: 'tpl-absent', name: '결석자 안부', body: '{이름} {직분}님, 평안하신지요? 최근 {결석횟수}주 동안 예배에서 뵙지 못해 안부 여쭙니다. 늘 기도하고 있습니다.' },
+  { id: 'tpl-notice', name: '예배 안내', body: '{이름} {직분}님, {날짜} 예배에 함께해 주세요. 기다리겠습니다.' },
+  { id: 'tpl-birthday', name: '생일 축하', body: '{이름} {직분}님, 생일을 진심으로 축하드립니다! 주님의 은혜와 평강이 늘 함께하시길 기도합니다.' },
+];
+
+const DEFAULT_SERVICES: ServiceType[] = [
+  { id: 'sun-1', name: '주일 1부', dayOfWeek: 0 },
+  { id: 'sun-2', name: '주일 2부', dayOfWeek: 0 },
+  { id: 'sun-pm', name: '주일 오후', dayOfWeek: 0 },
+  { id: 'wed', name: '수요 예배', dayOfWeek: 3 },
+  { id: 'fri', name: '금요 예배', dayOfWeek: 5 },
+];
+
+const SPECIAL_DAY_CATEGORIES: Record<SpecialDayKind, SpecialDayCategory> = {
+  '휴예배': 'cancelled',
+  '연합예배': 'joint',
+  '야외예배': 'joint',
+  '송구영신예배': 'special',
+  '부활절 새벽예배': 'special',
+  '추석 예배': 'special',
+  '특별새벽기도': 'special',
+};
+
+const SPECIAL_DAY_CATEGORY_ORDER: SpecialDayCategory[] = ['cancelled', 'joint', 'special'];
+
+const SPECIAL_DAY_CATEGORY_LABELS: Record<SpecialDayCategory, string> = {
+  cancelled: '휴예배 (출석률 제외)',
+  joint: '연합·야외 예배',
+  special: '특별 예배',
+};
+
+interface DateKeyRepair {
+  memberName: string;
+  serviceName: string;
+  from: string;
+  to: string;
+  conflict: boolean; // true when the target slot was already filled, so the record was left on its original date
 }
 
+// Date keys are local calendar dates. toISOString() works in UTC, which shifts
+// local midnight to the previous day east of Greenwich (e.g. KST), so never use it for keys.
+const toDateString = (date: Date) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const parseDateString = (dateString: string) => {
+    const [y, m, d] = dateString.split('-').map(Number);
+    return new Date(y, m - 1, d);
+};
+
+const addDays = (dateString: string, days: number) => {
+    const date = parseDateString(dateString);
+    date.setDate(date.getDate() + days);
+    return toDateString(date);
+};
+
 // Helper to get today's date string
-const getTodayString = () => new Date().toISOString().split('T')[0];
+const getTodayString = () => toDateString(new Date());
+
+const getDayOfWeek = (dateString: string) => parseDateString(dateString).getDay();
+
+const ATTENDANCE_OUTCOMES: Record<AttendanceStatus, AttendanceOutcome> = {
+    '출석': 'present',
+    '결석': 'absent',
+    '지각': 'present',
+    '온라인 예배': 'present',
+    '병결': 'excused',
+    '출장/여행': 'excused',
+    '군복무': 'excused',
+};
+
+// Marks for the printed monthly grid; 출석 and 결석 keep the familiar ○ and ×.
+const ATTENDANCE_MARKS: Record<AttendanceStatus, string> = {
+    '출석': '○',
+    '결석': '×',
+    '지각': '지',
+    '온라인 예배': '온',
+    '병결': '병',
+    '출장/여행': '출',
+    '군복무': '군',
+};
+
+const OUTCOME_LABELS: Record<AttendanceOutcome, string> = { present: '출석 인정', absent: '결석 처리', excused: '출석률 제외' };
+const DAY_OUTCOME_LABELS: Record<AttendanceOutcome, string> = { present: '출석', absent: '결석', excused: '사유' };
+
+const getAttendanceStatus = (member: Member, date: string, serviceId: string): AttendanceStatus | undefined =>
+    member.attendance[date]?.[serviceId];
+
+const findExcuse = (member: Member, date: string) =>
+    member.excuses?.find(excuse => excuse.from <= date && date <= excuse.to);
+
+// The recorded status with date-range excuses applied. Inside an excuse, a missing record or a plain 결석
+// (e.g. from '미체크 → 결석') becomes the excuse's status; any other record is kept as entered.
+const getEffectiveStatus = (member: Member, date: string, serviceId: string): AttendanceStatus | undefined => {
+    const recorded = getAttendanceStatus(member, date, serviceId);
+    if (recorded !== undefined && recorded !== '결석') return recorded;
+    return findExcuse(member, date)?.status ?? recorded;
+};
+
+const isPresentStatus = (status: AttendanceStatus | undefined) => status !== undefined && ATTENDANCE_OUTCOMES[status] === 'present';
+
+const getStatusClassName = (status: AttendanceStatus | undefined) =>
+    status === undefined ? '' : `stat-${ATTENDANCE_OUTCOMES[status]}`;
+
+// Returns a new attendance map with the given (date, service) slot updated. '미정' clears the slot.
+const updateAttendance = (attendance: Member['attendance'], date: string, serviceId: string, status: AttendanceStatus | '미정') => {
+    const day = { ...(attendance[date] || {}) };
+    if (status === '미정') {
+        delete day[serviceId];
+    } else {
+        day[serviceId] = status;
+    }
+    const newAttendance = { ...attendance };
+    if (Object.keys(day).length === 0) {
+        delete newAttendance[date];
+    } else {
+        newAttendance[date] = day;
+    }
+    return newAttendance;
+};
+
+const flattenAttendance = (attendance: Member['attendance']) =>
+    Object.entries(attendance).flatMap(([date, day]) =>
+        Object.entries(day).map(([serviceId, status]) => ({ date, serviceId, status }))
+    );
+
+// The member's records with excuses applied. Services without a record stay out, as they do for rates.
+const getEffectiveRecords = (member: Member) =>
+    flattenAttendance(member.attendance).map(record => ({ ...record, status: getEffectiveStatus(member, record.date, record.serviceId) ?? record.status }));
+
+interface AttendanceTally {
+  present: number;
+  marked: number; // services that count toward the rate, i.e. excused ones are left out
+}
+
+const tallyRecords = (records: { status: AttendanceStatus }[]): AttendanceTally => ({
+    present: records.filter(({ status }) => ATTENDANCE_OUTCOMES[status] === 'present').length,
+    marked: records.filter(({ status }) => ATTENDANCE_OUTCOMES[status] !== 'excused').length,
+});
+
+// Dates (ascending) on which each service was actually held: attendance was taken for someone on the
+// service's own weekday and the day wasn't marked 휴예배. Keyed by service id. Records on other weekdays,
+// such as a 송구영신예배 kept under the Sunday service, stay on the member but don't count toward its rate.
+type HeldServices = Map<string, string[]>;
+
+const findCancelledDates = (specialDays: SpecialDay[]) =>
+    new Set(specialDays.filter(day => SPECIAL_DAY_CATEGORIES[day.kind] === 'cancelled').map(day => day.date));
+
+const findHeldServices = (members: Member[], services: ServiceType[], specialDays: SpecialDay[]): HeldServices => {
+    const cancelledDates = findCancelledDates(specialDays);
+    const dayOfWeekById = new Map(services.map(s => [s.id, s.dayOfWeek]));
+    const held = new Map<string, Set<string>>();
+    members.forEach(member => flattenAttendance(member.attendance).forEach(({ date, serviceId }) => {
+        const dayOfWeek = dayOfWeekById.get(serviceId);
+        if (cancelledDates.has(date) || (dayOfWeek !== undefined && getDayOfWeek(date) !== dayOfWeek)) return;
+        if (!held.has(serviceId)) held.set(serviceId, new Set());
+        held.get(serviceId)!.add(date);
+    }));
+    return new Map(Array.from(held, ([serviceId, dates]) => [serviceId, Array.from(dates).sort()]));
+};
+
+// The date from which held services count for the member: the 등록일, or else the first record.
+// Null for a member with neither, who has nothing to count yet.
+const getCountingStart = (member: Member): string | null =>
+    member.registeredDate || Object.keys(member.attendance).reduce<string | null>((first, date) => (!first || date < first ? date : first), null);
+
+// The member's effective status at every held service in [from, to], so rates divide by the services actually held
+// rather than by the ones marked. An unmarked service counts as 결석 from the member's counting start on.
+const getHeldServiceRecords = (member: Member, heldServices: HeldServices, from: string, to: string) => {
+    const since = getCountingStart(member);
+    if (since === null) return [];
+    return Array.from(heldServices).flatMap(([serviceId, dates]) => dates
+        .filter(date => date >= from && date <= to && (date >= since || member.attendance[date]?.[serviceId] !== undefined))
+        .map(date => ({ date, serviceId, status: getEffectiveStatus(member, date, serviceId) ?? '결석' as AttendanceStatus })));
+};
+
+const formatTally = ({ present, marked }: AttendanceTally) =>
+    `${present}/${marked} (${marked > 0 ? `${((present / marked) * 100).toFixed(0)}%` : '-'})`;
+
+interface MemberFilters {
+  positionFilter: string;
+  statusFilter?: AttendanceStatus | typeof ALL_FILTER;
+  householdFilter?: string; // ALL_FILTER, NO_HOUSEHOLD_FILTER or the head's id
+  groupFilter?: string; // ALL_FILTER, NO_GROUP_FILTER or a group id
+  membershipFilter?: string; // ALL_FILTER, ACTIVE_MEMBERS_FILTER or a membership status
+  date?: string;
+  serviceId?: string;
+}
+
+const NO_HOUSEHOLD_FILTER = 'none';
+const NO_GROUP_FILTER = 'none';
+
+const getMembershipStatus = (member: Member): MembershipStatus => member.membershipStatus || '재적';
+
+// Inactive members keep their records but are left out of attendance rates, counts and absentee lists.
+const isActiveMember = (member: Member) =>
+    !(INACTIVE_MEMBERSHIP_STATUSES as readonly MembershipStatus[]).includes(getMembershipStatus(member));
+
+// Shared by the member table, the counts summary and the statistics dashboard.
+const matchesMemberFilters = (member: Member, { positionFilter, statusFilter = ALL_FILTER, householdFilter = ALL_FILTER, groupFilter = ALL_FILTER, membershipFilter = ALL_FILTER, date, serviceId }: MemberFilters) => {
+    const positionMatch = positionFilter === ALL_FILTER || member.position === positionFilter;
+    const statusMatch = statusFilter === ALL_FILTER || (date && serviceId ? getEffectiveStatus(member, date, serviceId) || null : null) === statusFilter;
+    const householdMatch = householdFilter === ALL_FILTER
+        || (householdFilter === NO_HOUSEHOLD_FILTER ? member.householdHeadId === undefined : String(member.householdHeadId) === householdFilter);
+    const groupMatch = groupFilter === ALL_FILTER
+        || (groupFilter === NO_GROUP_FILTER ? !member.groupIds?.length : !!member.groupIds?.includes(groupFilter));
+    const membershipMatch = membershipFilter === ALL_FILTER
+        || (membershipFilter === ACTIVE_MEMBERS_FILTER ? isActiveMember(member) : getMembershipStatus(member) === membershipFilter);
+    return positionMatch && statusMatch && householdMatch && groupMatch && membershipMatch;
+};
+
+const tallyHeldService = (member: Member, heldServices: HeldServices, serviceId: string, from: string, to: string) =>
+    tallyRecords(getHeldServiceRecords(member, heldServices, from, to).filter(record => record.serviceId === serviceId));
+
+const formatRate = ({ present, marked }: AttendanceTally) => (marked > 0 ? `${((present / marked) * 100).toFixed(0)}%` : '-');
+
+// Share of held services attended in [from, to] (inclusive date keys); null when nothing counts toward the rate.
+const getAttendanceRate = (member: Member, heldServices: HeldServices, serviceId: string, from: string, to: string): number | null => {
+    const { present, marked } = tallyHeldService(member, heldServices, serviceId, from, to);
+    return marked > 0 ? present / marked : null;
+};
+
+type MemberSortKey = 'name' | 'position' | 'rate';
+type RatePeriod = 'month' | 'year';
+
+// Everything that shapes the member table. Non-default values are mirrored into the query string
+// so a bookmarked or shared link restores the same view.
+interface TableViewState {
+  positionFilter: string;
+  statusFilter: AttendanceStatus | typeof ALL_FILTER;
+  householdFilter: string;
+  groupFilter: string;
+  membershipFilter: string;
+  groupByHousehold: boolean;
+  searchQuery: string;
+  sortKey: MemberSortKey;
+  sortDirection: 'asc' | 'desc';
+  ratePeriod: RatePeriod;
+  pageSize: number; // SHOW_ALL_PAGE_SIZE shows every member on one page
+  currentPage: number;
+}
+
+const DEFAULT_TABLE_VIEW: TableViewState = {
+    positionFilter: ALL_FILTER,
+    statusFilter: ALL_FILTER,
+    householdFilter: ALL_FILTER,
+    groupFilter: ALL_FILTER,
+    membershipFilter: ACTIVE_MEMBERS_FILTER,
+    groupByHousehold: false,
+    searchQuery: '',
+    sortKey: 'name',
+    sortDirection: 'asc',
+    ratePeriod: 'month',
+    pageSize: ITEMS_PER_PAGE,
+    currentPage: 1,
+};
+
+const TABLE_VIEW_PARAMS: Record<keyof TableViewState, string> = {
+    positionFilter: 'position',
+    statusFilter: 'status',
+    householdFilter: 'household',
+    groupFilter: 'group',
+    membershipFilter: 'membership',
+    groupByHousehold: 'byHousehold',
+    searchQuery: 'q',
+    sortKey: 'sort',
+    sortDirection: 'dir',
+    ratePeriod: 'period',
+    pageSize: 'size',
+    currentPage: 'page',
+};
+
+// Unknown or malformed values fall back to the defaults.
+const readTableViewFromUrl = (): TableViewState => {
+    const params = new URLSearchParams(window.location.search);
+    const get = (key: keyof TableViewState) => params.get(TABLE_VIEW_PARAMS[key]);
+    const pick = <T extends string>(value: string | null, allowed: readonly T[], fallback: T): T =>
+        value !== null && (allowed as readonly string[]).includes(value) ? value as T : fallback;
+    const page = Number(get('currentPage'));
+    const pageSize = Number(get('pageSize') ?? DEFAULT_TABLE_VIEW.pageSize);
+    return {
+        positionFilter: pick(get('positionFilter'), [ALL_FILTER, ...POSITIONS], ALL_FILTER),
+        statusFilter: pick(get('statusFilter'), [ALL_FILTER, ...ATTENDANCE_STATUSES], ALL_FILTER),
+        householdFilter: get('householdFilter') || ALL_FILTER,
+        groupFilter: get('groupFilter') || ALL_FILTER,
+        membershipFilter: pick(get('membershipFilter'), [ALL_FILTER, ACTIVE_MEMBERS_FILTER, ...MEMBERSHIP_STATUSES], ACTIVE_MEMBERS_FILTER),
+        groupByHousehold: get('groupByHousehold') === 'true',
+        searchQuery: get('searchQuery') || '',
+        sortKey: pick(get('sortKey'), ['name', 'position', 'rate'], 'name'),
+        sortDirection: pick(get('sortDirection'), ['asc', 'desc'], 'asc'),
+        ratePeriod: pick(get('ratePeriod'), ['month', 'year'], 'month'),
+        pageSize: [...PAGE_SIZE_OPTIONS, SHOW_ALL_PAGE_SIZE].includes(pageSize) ? pageSize : DEFAULT_TABLE_VIEW.pageSize,
+        currentPage: Number.isInteger(page) && page > 0 ? page : 1,
+    };
+};
+
+// replaceState keeps filter tweaks out of the back/forward history; other parameters and the hash are left alone.
+const writeTableViewToUrl = (view: TableViewState) => {
+    const params = new URLSearchParams(window.location.search);
+    (Object.keys(TABLE_VIEW_PARAMS) as (keyof TableViewState)[]).forEach(key => {
+        if (view[key] === DEFAULT_TABLE_VIEW[key]) params.delete(TABLE_VIEW_PARAMS[key]);
+        else params.set(TABLE_VIEW_PARAMS[key], String(view[key]));
+    });
+    const query = params.toString();
+    window.history.replaceState(window.history.state, '', `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`);
+};
+
+type AppView = 'roster' | 'checkin' | 'visitors' | 'groups' | 'stats' | 'absentees' | 'settings';
+const APP_VIEWS: AppView[] = ['roster', 'checkin', 'visitors', 'groups', 'stats', 'absentees', 'settings'];
+
+// Views that work on a selected service date and keep it in the route.
+const DATED_VIEWS: AppView[] = ['roster', 'checkin', 'visitors', 'groups'];
+
+type Route = { view: AppView; date?: string } | { view: 'member'; memberId: number };
+
+const isValidDateKey = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value) && toDateString(parseDateString(value)) === value;
+
+// #/ and #/date/:yyyy-mm-dd show the roster (today or the given date), #/members/:id a member page
+// and #/<view> the other tabs, with /:yyyy-mm-dd for the dated ones. Anything unrecognised falls back to the roster.
+const parseRoute = (hash: string): Route => {
+    const [section = '', param = ''] = hash.replace(/^#\/?/, '').split('/');
+    if (section === 'members' && /^\d+$/.test(param)) return { view: 'member', memberId: Number(param) };
+    if (section === 'date' && isValidDateKey(param)) return { view: 'roster', date: param };
+    if ((APP_VIEWS as string[]).includes(section) && section !== 'roster') {
+        const view = section as AppView;
+        return DATED_VIEWS.includes(view) && isValidDateKey(param) ? { view, date: param } : { view };
+    }
+    return { view: 'roster' };
+};
+
+const buildRouteHash = (route: Route) => {
+    if (route.view === 'member') return `#/members/${route.memberId}`;
+    if (route.view === 'roster') return route.date ? `#/date/${route.date}` : '#/';
+    return DATED_VIEWS.includes(route.view) && route.date ? `#/${route.view}/${route.date}` : `#/${route.view}`;
+};
+
+const getRouteDate = (route: Route) => (route.view !== 'member' && DATED_VIEWS.includes(route.view) ? route.date : undefined);
+
+type BulkAttendanceAction = '출석' | '결석' | 'unmarkedAbsent' | 'clear' | 'copyPrevious';
+
+const BULK_ATTENDANCE_LABELS: Record<BulkAttendanceAction, string> = {
+    '출석': '모두 출석',
+    '결석': '모두 결석',
+    unmarkedAbsent: '미체크 → 결석',
+    clear: '기록 지우기',
+    copyPrevious: '지난주 출결 복사',
+};
+
+// Returns only the members whose status for the slot actually changes, so confirmations can show an exact count.
+// Copying last week fills in members not yet checked and never overwrites today's records.
+const planBulkAttendance = (targets: Member[], date: string, serviceId: string, action: BulkAttendanceAction) =>
+    targets.flatMap(member => {
+        const current = getAttendanceStatus(member, date, serviceId);
+        const next = action === 'clear' ? undefined
+            : action === 'unmarkedAbsent' ? current ?? '결석'
+            : action === 'copyPrevious' ? current ?? getAttendanceStatus(member, addDays(date, -7), serviceId)
+            : action;
+        return next === current ? [] : [{ memberId: member.id, status: next ?? '미정' as const }];
+    });
+
+// Drops empty values so records only carry the profile fields that were actually filled in.
+const cleanProfile = (profile: MemberProfile): MemberProfile => {
+    const cleaned: MemberProfile = {};
+    (Object.keys(PROFILE_FIELD_LABELS) as (keyof MemberProfile)[]).forEach(key => {
+        const value = profile[key]?.trim();
+        if (value) Object.assign(cleaned, { [key]: value });
+    });
+    return cleaned;
+};
+
+const withProfile = (member: Member, profile: MemberProfile): Member => {
+    const base = { ...member };
+    (Object.keys(PROFILE_FIELD_LABELS) as (keyof MemberProfile)[]).forEach(key => delete base[key]);
+    return { ...base, ...cleanProfile(profile) };
+};
+
+const pickProfile = (member: Member): MemberProfile =>
+    cleanProfile(Object.fromEntries((Object.keys(PROFILE_FIELD_LABELS) as (keyof MemberProfile)[]).map(key => [key, member[key]])));
+
+const resizePhoto = (file: File): Promise<string> =>
+    new Promise((resolve, reject) => {
+        const url = URL.createObjectURL(file);
+        const image = new Image();
+        image.onload = () => {
+            const scale = Math.min(1, PHOTO_MAX_SIZE / Math.max(image.width, image.height));
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.round(image.width * scale);
+            canvas.height = Math.round(image.height * scale);
+            canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+            URL.revokeObjectURL(url);
+            resolve(canvas.toDataURL('image/jpeg', 0.85));
+        };
+        image.onerror = () => {
+            URL.revokeObjectURL(url);
+            reject(new Error('이미지를 읽을 수 없습니다.'));
+        };
+        image.src = url;
+    });
+
+// Formats mobile (010-1234-5678), Seoul (02-123-4567), other area codes and 070/050x (031-123-4567)
+// and nationwide numbers (1588-1234). International +82 / 0082 prefixes become the domestic leading 0.
+// Returns null when the digits do not form a Korean phone number.
+const formatPhoneNumber = (phone: string): string | null => {
+    const trimmed = phone.trim();
+    let digits = trimmed.replace(/\D/g, '');
+    if (trimmed.startsWith('+82') || digits.startsWith('0082')) {
+        digits = '0' + digits.replace(/^(00)?82/, '').replace(/^0/, '');
+    }
+    const patterns = [
+        /^(01[016789])(\d{3,4})(\d{4})$/,
+        /^(02)(\d{3,4})(\d{4})$/,
+        /^(0[3-6][1-5]|070|050\d)(\d{3,4})(\d{4})$/,
+        /^(1[5-9]\d{2})(\d{4})$/,
+    ];
+    for (const pattern of patterns) {
+        const match = digits.match(pattern);
+        if (match) return match.slice(1).join('-');
+    }
+    return null;
+};
+
+const normalizePhoneDigits = (phone: string) => (formatPhoneNumber(phone) ?? phone).replace(/\D/g, '');
+
+// A phone is optional, but when present it has to be a valid number.
+const getPhoneError = (phone: string) =>
+    phone.replace(/\D/g, '') && !formatPhoneNumber(phone) ? '올바른 전화번호가 아닙니다. (예: 010-1234-5678, 02-123-4567, +82 10-1234-5678)' : null;
+
+interface DuplicateCandidate {
+  member: Member;
+  reason: '이름·전화번호 같음' | '전화번호 같음' | '동명이인';
+}
+
+// Partial numbers such as the '010-' placeholder are not compared.
+const findDuplicateMembers = (candidate: { id?: number; name: string; phone: string }, members: Member[]): DuplicateCandidate[] => {
+    const name = candidate.name.trim();
+    const digits = normalizePhoneDigits(candidate.phone);
+    const comparePhone = digits.length >= 8;
+    return members.flatMap((member): DuplicateCandidate[] => {
+        if (member.id === candidate.id) return [];
+        const sameName = name !== '' && member.name.trim() === name;
+        const samePhone = comparePhone && normalizePhoneDigits(member.phone) === digits;
+        if (sameName && samePhone) return [{ member, reason: '이름·전화번호 같음' }];
+        if (samePhone) return [{ member, reason: '전화번호 같음' }];
+        if (sameName) return [{ member, reason: '동명이인' }];
+        return [];
+    });
+};
+
+interface Household {
+  headId: number;
+  name: string;
+  members: Member[]; // head first, then by name
+}
+
+// 'self' makes the member the head of their own household; makeHead hands an existing household over to the member.
+interface HouseholdChoice {
+  headId: number | 'self' | null;
+  makeHead: boolean;
+}
+
+const getHouseholds = (members: Member[]): Household[] => {
+    const byHead = new Map<number, Member[]>();
+    members.forEach(member => {
+        if (member.householdHeadId === undefined) return;
+        byHead.set(member.householdHeadId, [...(byHead.get(member.householdHeadId) || []), member]);
+    });
+    return Array.from(byHead.entries())
+        .map(([headId, householdMembers]) => {
+            const head = householdMembers.find(m => m.id === headId);
+            return {
+                headId,
+                name: `${(head || householdMembers[0]).name} 가정`,
+                members: [...householdMembers].sort((a, b) => Number(b.id === headId) - Number(a.id === headId) || a.name.localeCompare(b.name, 'ko')),
+            };
+        })
+        .sort((a, b) => a.name.localeCompare(b.name, 'ko'));
+};
+
+const withHouseholdHead = (member: Member, headId: number | undefined): Member => {
+    const { householdHeadId, ...rest } = member;
+    return headId === undefined ? rest : { ...rest, householdHeadId: headId };
+};
+
+// Only the members whose link actually changes get a new object, so incremental saves stay small.
+const assignHousehold = (members: Member[], memberId: number, choice: HouseholdChoice): Member[] => {
+    const member = members.find(m => m.id === memberId);
+    if (!member) return members;
+    const headId = choice.headId === 'self' ? memberId : choice.headId;
+    const links = new Map(members.map(m => [m.id, m.householdHeadId]));
+    // A head who leaves hands the household over to the next member so the rest of the family stays together.
+    if (member.householdHeadId === memberId && headId !== memberId) {
+        const rest = members.filter(m => m.id !== memberId && m.householdHeadId === memberId);
+        rest.forEach(m => links.set(m.id, rest[0].id));
+    }
+    links.set(memberId, headId ?? undefined);
+    if (choice.makeHead && headId !== null && headId !== memberId) {
+        members.forEach(m => {
+            if (links.get(m.id) === headId) links.set(m.id, memberId);
+        });
+    }
+    return members.map(m => (links.get(m.id) === m.householdHeadId ? m : withHouseholdHead(m, links.get(m.id))));
+};
+
+// One recipient per household: the head when they have a number, otherwise the first selected family member.
+const pickHouseholdContacts = (selected: Member[], allMembers: Member[]): Member[] => {
+    const byId = new Map(allMembers.map(m => [m.id, m]));
+    const contacts = new Map<number, Member>();
+    selected.forEach(member => {
+        const key = member.householdHeadId ?? member.id;
+        if (contacts.has(key)) return;
+        const head = member.householdHeadId !== undefined ? byId.get(member.householdHeadId) : undefined;
+        contacts.set(key, head && head.phone.trim() ? head : member);
+    });
+    return Array.from(contacts.values());
+};
+
+// Old data stored a single status per date. Those records are assigned to the first service held on that weekday,
+// or on the following weekday when the key was saved one day early by the old UTC conversion.
+const getDefaultServiceId = (date: string, services: ServiceType[]) => {
+    const dayOfWeek = getDayOfWeek(date);
+    return (
+        services.find(s => s.dayOfWeek === dayOfWeek) ||
+        services.find(s => s.dayOfWeek === (dayOfWeek + 1) % 7) ||
+        services[0]
+    ).id;
+};
+
+const migrateAttendance = (attendance: Record<string, any>, services: ServiceType[]): Member['attendance'] => {
+    const migrated: Member['attendance'] = {};
+    for (const [date, value] of Object.entries(attendance)) {
+        if (typeof value === 'string') {
+            migrated[date] = { ...(migrated[date] || {}), [getDefaultServiceId(date, services)]: value as AttendanceStatus };
+        } else if (value && typeof value === 'object') {
+            migrated[date] = { ...(migrated[date] || {}), ...value };
+        }
+    }
+    return migrated;
+};
+
+// Finds records saved one day early by the old UTC date conversion: the service is not held on the
+// stored weekday but is held on the next day. Those records are moved to the next day, unless that slot is taken.
+// Only for data saved before date keys were fixed: legacy localStorage data and bare-array backup files.
+const repairShiftedDateKeys = (members: Member[], services: ServiceType[]): { members: Member[]; repairs: DateKeyRepair[] } => {
+    const repairs: DateKeyRepair[] = [];
+    const repairedMembers = members.map(member => {
+        let attendance = member.attendance;
+        for (const { date, serviceId, status } of flattenAttendance(member.attendance)) {
+            const service = services.find(s => s.id === serviceId);
+            if (!service) continue;
+            const dayOfWeek = getDayOfWeek(date);
+            if (dayOfWeek === service.dayOfWeek || (dayOfWeek + 1) % 7 !== service.dayOfWeek) continue;
+
+            const to = addDays(date, 1);
+            const conflict = member.attendance[to]?.[serviceId] !== undefined;
+            if (!conflict) {
+                attendance = updateAttendance(updateAttendance(attendance, date, serviceId, '미정'), to, serviceId, status);
+            }
+            repairs.push({ memberName: member.name, serviceName: service.name, from: date, to, conflict });
+        }
+        return attendance === member.attendance ? member : { ...member, attendance };
+    });
+    return { members: repairedMembers, repairs };
+};
+
+const loadServices = (): ServiceType[] => {
+    try {
+        const savedServicesRaw = window.localStorage.getItem(SERVICES_STORAGE_KEY);
+        if (savedServicesRaw) {
+            const parsedServices = JSON.parse(savedServicesRaw);
+            if (Array.isArray(parsedServices) && parsedServices.length > 0) {
+                return parsedServices;
+            }
+        }
+    } catch (error) {
+        console.error("Could not load services from localStorage", error);
+    }
+    return DEFAULT_SERVICES;
+};
 
 const unsortedMembers: Member[] = [];
 
 
 const initialMembers = unsortedMembers.sort((a, b) => a.name.localeCompare(b.name, 'ko'));
 
-const generateYearlySundays = (year: number) => {
+const generateYearlyServiceDays = (year: number, dayOfWeek: number) => {
     const months: { month: number; sundays: Date[] }[] = Array.from({ length: 12 }, (_, i) => ({ month: i + 1, sundays: [] }));
     const date = new Date(year, 0, 1);
     while (date.getFullYear() === year) {
-        if (date.getDay() === 0) { // 0 is Sunday
+        if (date.getDay() === dayOfWeek) {
             months[date.getMonth()].sundays.push(new Date(date));
         }
         date.setDate(date.getDate() + 1);
@@ -39,19 +746,42 @@ const generateYearlySundays = (year: number) => {
     return months;
 };
 
-const YearlySundayCalendar: FC<{ year: number; selectedDate: string; onDateSelect: (date: string) => void; }> = ({ year, selectedDate, onDateSelect }) => {
-    const calendarData = useMemo(() => generateYearlySundays(year), [year]);
+const generateYearlySundays = (year: number) => generateYearlyServiceDays(year, 0); // 0 is Sunday
+
+const formatSpecialDay = ({ kind, note }: SpecialDay) => (note ? `${kind} · ${note}` : kind);
+
+const YearlySundayCalendar: FC<{
+    year: number;
+    dayOfWeek?: number;
+    specialDays?: SpecialDay[];
+    selectedDate: string;
+    onDateSelect: (date: string) => void;
+    onEditSpecialDays?: () => void;
+}> = ({ year, dayOfWeek = 0, specialDays = [], selectedDate, onDateSelect, onEditSpecialDays }) => {
+    const yearSpecialDays = useMemo(() => specialDays.filter(day => day.date.startsWith(`${year}-`)), [specialDays, year]);
+    const specialDayMap = useMemo(() => new Map(yearSpecialDays.map(day => [day.date, day])), [yearSpecialDays]);
+    // Special services on other weekdays (송구영신, 특별새벽기도 …) are slotted into their month between the regular days.
+    const calendarData = useMemo(() => generateYearlyServiceDays(year, dayOfWeek).map(({ month, sundays }) => {
+        const dates = new Set(sundays.map(toDateString));
+        yearSpecialDays
+            .filter(day => SPECIAL_DAY_CATEGORIES[day.kind] === 'special' && Number(day.date.slice(5, 7)) === month)
+            .forEach(day => dates.add(day.date));
+        return { month, sundays: Array.from(dates).sort().map(parseDateString) };
+    }), [year, dayOfWeek, yearSpecialDays]);
+    const categories = SPECIAL_DAY_CATEGORY_ORDER.filter(category => yearSpecialDays.some(day => SPECIAL_DAY_CATEGORIES[day.kind] === category));
+    const selectedSpecialDay = specialDayMap.get(selectedDate);
     
     const today = new Date();
     const currentYear = today.getFullYear();
     const currentMonth = today.getMonth() + 1;
     
     const currentSundayDate = new Date();
-    currentSundayDate.setDate(currentSundayDate.getDate() - currentSundayDate.getDay());
-    const currentSundayString = currentSundayDate.toISOString().split('T')[0];
+    currentSundayDate.setDate(currentSundayDate.getDate() - ((currentSundayDate.getDay() - dayOfWeek + 7) % 7));
+    const currentSundayString = toDateString(currentSundayDate);
     const todayString = getTodayString();
 
     return (
+        <>
         <div className="yearly-calendar-container">
             {calendarData.map(({ month, sundays }) => {
                 const isCurrentMonth = year === currentYear && month === currentMonth;
@@ -60,15 +790,17 @@ const YearlySundayCalendar: FC<{ year: number; selectedDate: string; onDateSelec
                         <span className="month-title">{month}월</span>
                         <div className="week-buttons">
                             {sundays.map(day => {
-                                const dateString = day.toISOString().split('T')[0];
+                                const dateString = toDateString(day);
                                 const isCurrentWeek = dateString === currentSundayString;
                                 const isToday = dateString === todayString;
+                                const specialDay = specialDayMap.get(dateString);
                                 return (
                                     <button
                                         key={dateString}
-                                        className={`week-button ${selectedDate === dateString ? 'active' : ''} ${isCurrentWeek ? 'current-week' : ''} ${isToday ? 'today' : ''}`}
+                                        className={`week-button ${selectedDate === dateString ? 'active' : ''} ${isCurrentWeek ? 'current-week' : ''} ${isToday ? 'today' : ''} ${specialDay ? `special-${SPECIAL_DAY_CATEGORIES[specialDay.kind]}` : ''}`}
                                         onClick={() => onDateSelect(dateString)}
                                         aria-pressed={selectedDate === dateString}
+                                        title={specialDay ? `${dateString} ${formatSpecialDay(specialDay)}` : undefined}
                                     >
                                         {day.getDate()}
                                     </button>
@@ -79,13 +811,202 @@ const YearlySundayCalendar: FC<{ year: number; selectedDate: string; onDateSelec
                 );
             })}
         </div>
+        {categories.length > 0 && (
+            <div className="special-day-bar">
+                {categories.map(category => (
+                    <span key={category} className="legend-item"><span className={`legend-color special-${category}`}></span> {SPECIAL_DAY_CATEGORY_LABELS[category]}</span>
+                ))}
+                {selectedSpecialDay && (
+                    <strong className="special-day-notice">{selectedDate} {formatSpecialDay(selectedSpecialDay)}</strong>
+                )}
+                {onEditSpecialDays && <button className="btn" onClick={onEditSpecialDays}>특별일 설정</button>}
+            </div>
+        )}
+        </>
     );
 };
 
-const AddMemberModal: FC<{ onSave: (data: { name: string; position: Position; phone: string }) => void; onCancel: () => void; }> = ({ onSave, onCancel }) => {
-    const [name, setName] = useState('');
-    const [position, setPosition] = useState<Position>('성도');
-    const [phone, setPhone] = useState('010-');
+const lunarDateFormatter = new Intl.DateTimeFormat('ko-KR-u-ca-dangi', { month: 'numeric', day: 'numeric' });
+
+// Lunar month and day of a solar date, using the browser's built-in Korean lunar calendar (works offline).
+const getLunarDate = (date: string) => {
+    const parts = lunarDateFormatter.formatToParts(parseDateString(date));
+    const month = parts.find(part => part.type === 'month')!.value;
+    return {
+        month: Number(month.replace(/\D/g, '')),
+        day: Number(parts.find(part => part.type === 'day')!.value),
+        isLeapMonth: month.startsWith('윤'),
+    };
+};
+
+// Western Easter Sunday by the anonymous Gregorian computus.
+const getEasterDate = (year: number) => {
+    const a = year % 19;
+    const b = Math.floor(year / 100);
+    const c = year % 100;
+    const h = (19 * a + b - Math.floor(b / 4) - Math.floor((b - Math.floor((b + 8) / 25) + 1) / 3) + 15) % 30;
+    const l = (32 + 2 * (b % 4) + 2 * Math.floor(c / 4) - h - (c % 4)) % 7;
+    const m = Math.floor((a + 11 * h + 22 * l) / 451);
+    const n = h + l - 7 * m + 114;
+    return toDateString(new Date(year, Math.floor(n / 31) - 1, (n % 31) + 1));
+};
+
+// 추석 is the 15th of the 8th lunar month, which always falls in September or early October.
+const findChuseokDate = (year: number): string | null => {
+    for (let date = `${year}-09-01`; date <= `${year}-10-15`; date = addDays(date, 1)) {
+        const lunar = getLunarDate(date);
+        if (lunar.month === 8 && lunar.day === 15 && !lunar.isLeapMonth) return date;
+    }
+    return null;
+};
+
+// The usual date of a special day in `year`, used to prefill the settings form.
+const suggestSpecialDayDate = (kind: SpecialDayKind, year: number): string | null => {
+    switch (kind) {
+        case '송구영신예배': return `${year}-12-31`;
+        case '부활절 새벽예배': return getEasterDate(year);
+        case '추석 예배': return findChuseokDate(year);
+        default: return null;
+    }
+};
+
+// Solar anniversaries on Feb 29 fall on Feb 28 in common years.
+const matchesAnniversary = (original: string, date: string) => {
+    const monthDay = original.slice(5);
+    return date.slice(5) === monthDay || (monthDay === '02-29' && date.slice(5) === '02-28' && addDays(date, 1).slice(5) === '03-01');
+};
+
+// Lunar birthdays are kept in the regular month, not in a leap month (윤달), and a birthday on the 30th
+// falls on the 29th in months that only have 29 days.
+const matchesLunarBirthday = (birthDate: string, date: string) => {
+    const [, month, day] = birthDate.split('-').map(Number);
+    const lunar = getLunarDate(date);
+    if (lunar.isLeapMonth || lunar.month !== month) return false;
+    return lunar.day === day || (day === 30 && lunar.day === 29 && getLunarDate(addDays(date, 1)).day === 1);
+};
+
+type CelebrationKind = '생일' | '등록' | '세례';
+
+interface Celebration {
+  member: Member;
+  kind: CelebrationKind;
+  date: string; // solar date of the occurrence within the range
+  years: number; // age for birthdays, years since registration or baptism otherwise
+  lunar: boolean;
+}
+
+const findCelebrations = (members: Member[], from: string, to: string): Celebration[] => {
+    const celebrations: Celebration[] = [];
+    const activeMembers = members.filter(isActiveMember);
+    for (let date = from; date <= to; date = addDays(date, 1)) {
+        const year = Number(date.slice(0, 4));
+        activeMembers.forEach(member => {
+            if (member.birthDate) {
+                const lunar = member.birthCalendar === '음력';
+                if (lunar ? matchesLunarBirthday(member.birthDate, date) : matchesAnniversary(member.birthDate, date)) {
+                    celebrations.push({ member, kind: '생일', date, years: year - Number(member.birthDate.slice(0, 4)), lunar });
+                }
+            }
+            ([['등록', member.registeredDate], ['세례', member.baptismDate]] as const).forEach(([kind, original]) => {
+                if (original && original < date && matchesAnniversary(original, date)) {
+                    celebrations.push({ member, kind, date, years: year - Number(original.slice(0, 4)), lunar: false });
+                }
+            });
+        });
+    }
+    return celebrations;
+};
+
+const BIRTHDAY_GREETING = '{이름} {직분}님, 생일을 진심으로 축하드립니다! 주님의 은혜와 평강이 새로운 한 해 동안 늘 함께하시길 기도합니다.';
+const ANNIVERSARY_GREETING = '{이름} {직분}님, 뜻깊은 기념일을 축하드립니다. 우리 교회 가족으로 함께해 주셔서 감사합니다. 주님의 은혜가 늘 함께하시길 기도합니다.';
+
+const describeCelebration = ({ kind, years, lunar }: Celebration) =>
+    kind === '생일' ? `생일${lunar ? ' (음력)' : ''}${years > 0 ? ` · 만 ${years}세` : ''}` : `${kind} ${years}주년`;
+
+const CelebrationPanel: FC<{ members: Member[]; selectedDate: string; onSendSms: (recipients: Member[], body: string) => void; onViewMember: (member: Member) => void; }> = ({ members, selectedDate, onSendSms, onViewMember }) => {
+    const [range, setRange] = useState<'week' | 'month'>('week');
+    const [checked, setChecked] = useState<Set<string>>(new Set());
+
+    const weekStart = addDays(selectedDate, -getDayOfWeek(selectedDate));
+    const selected = parseDateString(selectedDate);
+    const [from, to] = range === 'week'
+        ? [weekStart, addDays(weekStart, 6)]
+        : [toDateString(new Date(selected.getFullYear(), selected.getMonth(), 1)), toDateString(new Date(selected.getFullYear(), selected.getMonth() + 1, 0))];
+
+    const celebrations = useMemo(() => findCelebrations(members, from, to), [members, from, to]);
+    const keyOf = (celebration: Celebration) => `${celebration.member.id}|${celebration.kind}`;
+
+    useEffect(() => {
+        setChecked(new Set());
+    }, [from, to]);
+
+    const checkedCelebrations = celebrations.filter(c => checked.has(keyOf(c)));
+    const greeting = checkedCelebrations.every(c => c.kind === '생일') ? BIRTHDAY_GREETING : checkedCelebrations.every(c => c.kind !== '생일') ? ANNIVERSARY_GREETING : `${BIRTHDAY_GREETING}\n${ANNIVERSARY_GREETING}`;
+    const recipients = Array.from(new Map(checkedCelebrations.map(c => [c.member.id, c.member])).values());
+
+    const toggle = (key: string) => setChecked(prev => {
+        const next = new Set(prev);
+        if (next.has(key)) next.delete(key);
+        else next.add(key);
+        return next;
+    });
+
+    const formatMonthDay = (date: string) => `${Number(date.slice(5, 7))}/${Number(date.slice(8))}`;
+
+    return (
+        <section className="celebration-panel" aria-label="생일과 기념일">
+            <div className="celebration-header">
+                <h3>🎂 생일 · 기념일</h3>
+                <div className="filter-buttons">
+                    <button className={`btn ${range === 'week' ? 'active' : ''}`} onClick={() => setRange('week')}>이번 주 ({formatMonthDay(weekStart)}~{formatMonthDay(addDays(weekStart, 6))})</button>
+                    <button className={`btn ${range === 'month' ? 'active' : ''}`} onClick={() => setRange('month')}>이번 달 ({selected.getMonth() + 1}월)</button>
+                </div>
+            </div>
+            {celebrations.length > 0 ? (
+                <ul className="celebration-list">
+                    {celebrations.map(celebration => {
+                        const key = keyOf(celebration);
+                        return (
+                            <li key={key} className={celebration.date === getTodayString() ? 'celebration-today' : ''}>
+                                <input type="checkbox" checked={checked.has(key)} onChange={() => toggle(key)} aria-label={`${celebration.member.name} 선택`} />
+                                <span className="celebration-date">{formatMonthDay(celebration.date)} ({WEEKDAY_NAMES[getDayOfWeek(celebration.date)]})</span>
+                                <span className="member-name-link" onClick={() => onViewMember(celebration.member)}>{celebration.member.name}</span>
+                                <span className={`celebration-kind celebration-${celebration.kind === '생일' ? 'birthday' : 'anniversary'}`}>{describeCelebration(celebration)}</span>
+                            </li>
+                        );
+                    })}
+                </ul>
+            ) : (
+                <p className="form-hint">이 기간에 생일이나 기념일을 맞는 교인이 없습니다.</p>
+            )}
+            {recipients.length > 0 && (
+                <div className="celebration-message">
+                    <button className="btn btn-sms" onClick={() => onSendSms(recipients, greeting)}>축하 문자 작성 ({recipients.length}명)</button>
+                </div>
+            )}
+        </section>
+    );
+};
+
+const ServiceSelector: FC<{ services: ServiceType[]; selectedServiceId: string; onServiceSelect: (serviceId: string) => void; onOpenSettings: () => void; }> = ({ services, selectedServiceId, onServiceSelect, onOpenSettings }) => (
+    <div className="service-selector" role="group" aria-label="예배 선택">
+        {services.map(service => (
+            <button
+                key={service.id}
+                className={`btn service-button ${selectedServiceId === service.id ? 'active' : ''}`}
+                onClick={() => onServiceSelect(service.id)}
+                aria-pressed={selectedServiceId === service.id}
+            >
+                {service.name} <span className="service-weekday">({WEEKDAY_NAMES[service.dayOfWeek]})</span>
+            </button>
+        ))}
+        <button className="btn service-settings-button" onClick={onOpenSettings} aria-label="예배 설정">⚙ 예배 설정</button>
+    </div>
+);
+
+const ServiceSettingsModal: FC<{ services: ServiceType[]; usedServiceIds: Set<string>; onSave: (services: ServiceType[]) => void; onCancel: () => void; }> = ({ services, usedServiceIds, onSave, onCancel }) => {
+    const [draft, setDraft] = useState<ServiceType[]>(services);
+    const [error, setError] = useState<string | null>(null);
 
     useEffect(() => {
         const handleEsc = (event: KeyboardEvent) => {
@@ -97,35 +1018,59 @@ const AddMemberModal: FC<{ onSave: (data: { name: string; position: Position; ph
         return () => window.removeEventListener('keydown', handleEsc);
     }, [onCancel]);
 
+    const handleChange = (id: string, field: 'name' | 'dayOfWeek', value: string) => {
+        setDraft(prev => prev.map(s => (s.id === id ? { ...s, [field]: field === 'dayOfWeek' ? Number(value) : value } : s)));
+        setError(null);
+    };
+
+    const handleAdd = () => {
+        setDraft(prev => [...prev, { id: `svc-${Date.now()}`, name: '', dayOfWeek: 0 }]);
+    };
+
+    const handleRemove = (service: ServiceType) => {
+        if (usedServiceIds.has(service.id)) {
+            alert(`'${service.name}' 예배에는 출석 기록이 있어 삭제할 수 없습니다. 이름이나 요일만 수정해주세요.`);
+            return;
+        }
+        setDraft(prev => prev.filter(s => s.id !== service.id));
+    };
+
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
-        if (name.trim() && phone.trim()) {
-            onSave({ name, position, phone });
+        const cleaned = draft.map(s => ({ ...s, name: s.name.trim() }));
+        // A blank name never removes a service: that would drop its records without the check in handleRemove.
+        if (cleaned.some(s => !s.name)) {
+            setError('이름이 비어 있는 예배가 있습니다. 이름을 입력하거나, 필요 없는 예배는 삭제 버튼으로 지워주세요.');
+            return;
+        }
+        if (cleaned.length === 0) {
+            alert('예배를 한 개 이상 등록해야 합니다.');
+            return;
         }
+        onSave(cleaned);
     };
 
     return (
-        <div className="modal-overlay" onClick={onCancel} role="dialog" aria-modal="true" aria-labelledby="add-modal-title">
+        <div className="modal-overlay" onClick={onCancel} role="dialog" aria-modal="true" aria-labelledby="service-modal-title">
             <div className="modal-content" onClick={e => e.stopPropagation()}>
                 <header className="modal-header">
-                    <h2 id="add-modal-title">새 교인 추가</h2>
+                    <h2 id="service-modal-title">예배 설정</h2>
                     <button className="btn-close" onClick={onCancel} aria-label="닫기">&times;</button>
                 </header>
                 <form onSubmit={handleSubmit} className="modal-body">
-                    <div className="form-group">
-                        <label htmlFor="add-name">이름</label>
-                        <input type="text" id="add-name" name="name" value={name} onChange={e => setName(e.target.value)} required />
-                    </div>
-                    <div className="form-group">
-                        <label htmlFor="add-position">직분</label>
-                        <select id="add-position" name="position" value={position} onChange={e => setPosition(e.target.value as Position)}>
-                            {POSITIONS.map(pos => <option key={pos} value={pos}>{pos}</option>)}
-                        </select>
-                    </div>
-                    <div className="form-group">
-                        <label htmlFor="add-phone">전화번호</label>
-                        <input type="tel" id="add-phone" name="phone" value={phone} onChange={e => setPhone(e.target.value)} placeholder="010-0000-0000" required />
-                    </div>
+                    <ul className="service-settings-list">
+                        {draft.map(service => (
+                            <li key={service.id} className="service-settings-row">
+                                <input type="text" value={service.name} onChange={e => handleChange(service.id, 'name', e.target.value)} placeholder="예배 이름" aria-label="예배 이름" />
+                                <select value={service.dayOfWeek} onChange={e => handleChange(service.id, 'dayOfWeek', e.target.value)} aria-label="요일">
+                                    {WEEKDAY_NAMES.map((day, index) => <option key={day} value={index}>{day}요일</option>)}
+                                </select>
+                                <button type="button" className="btn-delete" onClick={() => handleRemove(service)}>삭제</button>
+                            </li>
+                        ))}
+                    </ul>
+                    <button type="button" className="btn" onClick={handleAdd}>+ 예배 추가</button>
+                    {error && <p className="form-error" role="alert">{error}</p>}
                     <footer className="modal-footer">
                         <button type="button" className="btn" onClick={onCancel}>취소</button>
                         <button type="submit" className="btn btn-primary">저장</button>
@@ -136,8 +1081,10 @@ const AddMemberModal: FC<{ onSave: (data: { name: string; position: Position; ph
     );
 };
 
-const EditMemberModal: FC<{ member: Member; onSave: (member: Omit<Member, 'attendance'>) => void; onCancel: () => void; }> = ({ member, onSave, onCancel }) => {
-    const [formData, setFormData] = useState({ name: member.name, position: member.position, phone: member.phone });
+const GroupSettingsModal: FC<{ groups: MemberGroup[]; members: Member[]; onSave: (groups: MemberGroup[]) => void; onCancel: () => void; }> = ({ groups, members, onSave, onCancel }) => {
+    const [draft, setDraft] = useState<MemberGroup[]>(groups);
+    const [error, setError] = useState<string | null>(null);
+    const sortedMembers = useMemo(() => [...members].sort((a, b) => a.name.localeCompare(b.name, 'ko')), [members]);
 
     useEffect(() => {
         const handleEsc = (event: KeyboardEvent) => {
@@ -149,20 +1096,453 @@ const EditMemberModal: FC<{ member: Member; onSave: (member: Omit<Member, 'atten
         return () => window.removeEventListener('keydown', handleEsc);
     }, [onCancel]);
 
-    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
-        const { name, value } = e.target;
-        setFormData(prev => ({ ...prev, [name]: value as any }));
+    const handleChange = (id: string, field: 'name' | 'kind' | 'leaderId', value: string) => {
+        setDraft(prev => prev.map(g => {
+            if (g.id !== id) return g;
+            if (field !== 'leaderId') return { ...g, [field]: value };
+            const { leaderId, ...rest } = g;
+            return value ? { ...rest, leaderId: Number(value) } : rest;
+        }));
+        setError(null);
     };
 
-    const handleSubmit = (e: React.FormEvent) => {
-        e.preventDefault();
-        onSave({ id: member.id, ...formData });
+    const handleAdd = () => {
+        setDraft(prev => [...prev, { id: `grp-${Date.now()}`, name: '', kind: '구역' }]);
     };
 
-    return (
-        <div className="modal-overlay" onClick={onCancel} role="dialog" aria-modal="true" aria-labelledby="edit-modal-title">
-            <div className="modal-content" onClick={e => e.stopPropagation()}>
-                <header className="modal-header">
+    const handleRemove = (group: MemberGroup) => {
+        const memberCount = members.filter(m => m.groupIds?.includes(group.id)).length;
+        if (memberCount > 0 && !window.confirm(`'${group.name}'에 소속된 ${memberCount}명의 소속이 해제됩니다. 삭제하시겠습니까?`)) {
+            return;
+        }
+        setDraft(prev => prev.filter(g => g.id !== group.id));
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const cleaned = draft.map(g => ({ ...g, name: g.name.trim() }));
+        // A blank name never removes a group: that would skip the check in handleRemove and strand its members' ids.
+        if (cleaned.some(g => !g.name)) {
+            setError('이름이 비어 있는 소그룹이 있습니다. 이름을 입력하거나, 필요 없는 소그룹은 삭제 버튼으로 지워주세요.');
+            return;
+        }
+        onSave(cleaned);
+    };
+
+    return (
+        <div className="modal-overlay" onClick={onCancel} role="dialog" aria-modal="true" aria-labelledby="group-modal-title">
+            <div className="modal-content" onClick={e => e.stopPropagation()}>
+                <header className="modal-header">
+                    <h2 id="group-modal-title">소그룹 설정</h2>
+                    <button className="btn-close" onClick={onCancel} aria-label="닫기">&times;</button>
+                </header>
+                <form onSubmit={handleSubmit} className="modal-body">
+                    <p className="form-hint">구역, 셀, 부서를 등록하고 출석을 맡을 리더를 지정합니다. 교인의 소속은 교인 정보 수정에서 정할 수 있습니다.</p>
+                    <ul className="service-settings-list">
+                        {draft.map(group => (
+                            <li key={group.id} className="service-settings-row">
+                                <input type="text" value={group.name} onChange={e => handleChange(group.id, 'name', e.target.value)} placeholder="이름 (예: 1구역, 청년부)" aria-label="소그룹 이름" />
+                                <select value={group.kind} onChange={e => handleChange(group.id, 'kind', e.target.value)} aria-label="종류">
+                                    {GROUP_KINDS.map(kind => <option key={kind} value={kind}>{kind}</option>)}
+                                </select>
+                                <select value={group.leaderId ?? ''} onChange={e => handleChange(group.id, 'leaderId', e.target.value)} aria-label="리더">
+                                    <option value="">리더 없음</option>
+                                    {sortedMembers.map(m => <option key={m.id} value={m.id}>{m.name} ({m.position})</option>)}
+                                </select>
+                                <button type="button" className="btn-delete" onClick={() => handleRemove(group)}>삭제</button>
+                            </li>
+                        ))}
+                    </ul>
+                    <button type="button" className="btn" onClick={handleAdd}>+ 소그룹 추가</button>
+                    {error && <p className="form-error" role="alert">{error}</p>}
+                    <footer className="modal-footer">
+                        <button type="button" className="btn" onClick={onCancel}>취소</button>
+                        <button type="submit" className="btn btn-primary">저장</button>
+                    </footer>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+const MAX_SPECIAL_DAY_RANGE = 31; // days added at once, e.g. a week of 특별새벽기도
+
+const SpecialDaySettingsModal: FC<{ specialDays: SpecialDay[]; initialYear: number; onSave: (specialDays: SpecialDay[]) => void; onCancel: () => void; }> = ({ specialDays, initialYear, onSave, onCancel }) => {
+    const [draft, setDraft] = useState<SpecialDay[]>(specialDays);
+    const [year, setYear] = useState(initialYear);
+    const [kind, setKind] = useState<SpecialDayKind>('휴예배');
+    const [from, setFrom] = useState('');
+    const [to, setTo] = useState('');
+    const [note, setNote] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const handleEsc = (event: KeyboardEvent) => {
+           if (event.key === 'Escape') {
+              onCancel();
+           }
+        };
+        window.addEventListener('keydown', handleEsc);
+        return () => window.removeEventListener('keydown', handleEsc);
+    }, [onCancel]);
+
+    const handleKindChange = (value: SpecialDayKind) => {
+        setKind(value);
+        const suggested = suggestSpecialDayDate(value, year);
+        if (suggested) {
+            setFrom(suggested);
+            setTo('');
+        }
+        setError(null);
+    };
+
+    // One entry per day; a date that is already marked takes the new kind.
+    const handleAdd = () => {
+        if (!from) {
+            setError('날짜를 선택해주세요.');
+            return;
+        }
+        const end = to || from;
+        if (end < from) {
+            setError('종료일이 시작일보다 빠릅니다.');
+            return;
+        }
+        const dates: string[] = [];
+        for (let date = from; date <= end; date = addDays(date, 1)) dates.push(date);
+        if (dates.length > MAX_SPECIAL_DAY_RANGE) {
+            setError(`한 번에 ${MAX_SPECIAL_DAY_RANGE}일까지 추가할 수 있습니다.`);
+            return;
+        }
+        const added = dates.map(date => ({ date, kind, ...(note.trim() ? { note: note.trim() } : {}) }));
+        setDraft(prev => [...prev.filter(day => !dates.includes(day.date)), ...added]);
+        setYear(Number(from.slice(0, 4)));
+        setNote('');
+        setError(null);
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        onSave([...draft].sort((a, b) => a.date.localeCompare(b.date)));
+    };
+
+    const yearDays = draft.filter(day => day.date.startsWith(`${year}-`)).sort((a, b) => a.date.localeCompare(b.date));
+
+    return (
+        <div className="modal-overlay" onClick={onCancel} role="dialog" aria-modal="true" aria-labelledby="special-day-modal-title">
+            <div className="modal-content" onClick={e => e.stopPropagation()}>
+                <header className="modal-header">
+                    <h2 id="special-day-modal-title">특별일 설정</h2>
+                    <button className="btn-close" onClick={onCancel} aria-label="닫기">&times;</button>
+                </header>
+                <form onSubmit={handleSubmit} className="modal-body">
+                    <p className="form-hint">휴예배로 지정한 날은 누구의 출석률에도 들어가지 않습니다. 연합·야외 예배와 특별 예배는 달력에 따로 표시되며, 출결은 그날 선택한 예배에 기록합니다.</p>
+                    <div className="special-day-form">
+                        <select value={kind} onChange={e => handleKindChange(e.target.value as SpecialDayKind)} aria-label="종류">
+                            {SPECIAL_DAY_KINDS.map(k => <option key={k} value={k}>{k}</option>)}
+                        </select>
+                        <input type="date" value={from} onChange={e => { setFrom(e.target.value); setError(null); }} aria-label="날짜" />
+                        <span>~</span>
+                        <input type="date" value={to} onChange={e => { setTo(e.target.value); setError(null); }} aria-label="종료일 (여러 날일 때)" />
+                        <input type="text" value={note} onChange={e => setNote(e.target.value)} placeholder="메모 (예: 전교인 수련회)" aria-label="메모" />
+                        <button type="button" className="btn btn-primary" onClick={handleAdd}>추가</button>
+                        {error && <p className="form-error" role="alert">{error}</p>}
+                    </div>
+                    <div className="history-navigator">
+                        <button type="button" className="btn" onClick={() => setYear(y => y - 1)} aria-label="이전 연도">&lt;</button>
+                        <strong>{year}년</strong>
+                        <button type="button" className="btn" onClick={() => setYear(y => y + 1)} aria-label="다음 연도">&gt;</button>
+                    </div>
+                    {yearDays.length === 0 ? (
+                        <p className="no-members">{year}년에 지정한 특별일이 없습니다.</p>
+                    ) : (
+                        <ul className="service-settings-list">
+                            {yearDays.map(day => (
+                                <li key={day.date} className="service-settings-row">
+                                    <span className={`special-day-kind special-${SPECIAL_DAY_CATEGORIES[day.kind]}`}>{day.kind}</span>
+                                    <span>{day.date} ({WEEKDAY_NAMES[getDayOfWeek(day.date)]}){day.note && ` · ${day.note}`}</span>
+                                    <button type="button" className="btn-delete" onClick={() => setDraft(prev => prev.filter(d => d.date !== day.date))}>삭제</button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                    <footer className="modal-footer">
+                        <button type="button" className="btn" onClick={onCancel}>취소</button>
+                        <button type="submit" className="btn btn-primary">저장</button>
+                    </footer>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+const HouseholdField: FC<{ id: string; households: Household[]; memberId?: number; value: HouseholdChoice; onChange: (choice: HouseholdChoice) => void }> = ({ id, households, memberId, value, onChange }) => {
+    const otherHouseholds = households.filter(h => h.headId !== memberId);
+    const handleSelect = (selected: string) => {
+        onChange({ headId: selected === '' ? null : selected === 'self' ? 'self' : Number(selected), makeHead: false });
+    };
+
+    return (
+        <div className="form-group">
+            <label htmlFor={id}>가구</label>
+            <select id={id} value={value.headId === null ? '' : String(value.headId)} onChange={e => handleSelect(e.target.value)}>
+                <option value="">가구 없음</option>
+                <option value="self">본인이 가구주</option>
+                {otherHouseholds.map(h => <option key={h.headId} value={h.headId}>{h.name} ({h.members.length}명)</option>)}
+            </select>
+            {typeof value.headId === 'number' && (
+                <label className="form-checkbox">
+                    <input type="checkbox" checked={value.makeHead} onChange={e => onChange({ ...value, makeHead: e.target.checked })} />
+                    이 가정의 가구주로 지정
+                </label>
+            )}
+        </div>
+    );
+};
+
+const GroupField: FC<{ groups: MemberGroup[]; value: string[]; onChange: (groupIds: string[]) => void }> = ({ groups, value, onChange }) => {
+    if (groups.length === 0) return null;
+    const toggle = (id: string) => onChange(value.includes(id) ? value.filter(v => v !== id) : [...value, id]);
+
+    return (
+        <fieldset className="form-group group-field">
+            <legend>소속 (구역/셀/부서)</legend>
+            {GROUP_KINDS.map(kind => {
+                const ofKind = groups.filter(g => g.kind === kind);
+                if (ofKind.length === 0) return null;
+                return (
+                    <div key={kind} className="group-field-row">
+                        <span className="group-field-kind">{kind}</span>
+                        {ofKind.map(group => (
+                            <label key={group.id} className="form-checkbox">
+                                <input type="checkbox" checked={value.includes(group.id)} onChange={() => toggle(group.id)} />
+                                {group.name}
+                            </label>
+                        ))}
+                    </div>
+                );
+            })}
+        </fieldset>
+    );
+};
+
+const ProfileFields: FC<{ idPrefix: string; value: MemberProfile; onChange: (profile: MemberProfile) => void }> = ({ idPrefix, value, onChange }) => {
+    const [initiallyOpen] = useState(() => Object.keys(cleanProfile({ ...value, membershipStatus: undefined, registeredDate: undefined })).length > 0);
+    const set = (key: keyof MemberProfile, fieldValue: string) => onChange({ ...value, [key]: fieldValue || undefined });
+
+    const handlePhoto = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        try {
+            set('photo', await resizePhoto(file));
+        } catch (error) {
+            console.error("Could not read photo", error);
+            alert('사진을 불러오지 못했습니다. 다른 이미지 파일을 선택해주세요.');
+        }
+    };
+
+    return (
+        <details className="profile-fields" open={initiallyOpen}>
+            <summary>상세 정보 (생년월일, 주소, 사진 등)</summary>
+            <div className="profile-photo-row">
+                {value.photo ? <img className="member-photo" src={value.photo} alt="교인 사진" /> : <div className="member-photo member-photo-empty">사진 없음</div>}
+                <div className="profile-photo-actions">
+                    <label className="btn">
+                        사진 선택
+                        <input type="file" accept="image/*" onChange={handlePhoto} style={{ display: 'none' }} />
+                    </label>
+                    {value.photo && <button type="button" className="btn" onClick={() => set('photo', '')}>사진 삭제</button>}
+                    <span className="form-hint">사진은 이 기기의 브라우저에만 저장됩니다.</span>
+                </div>
+            </div>
+            <div className="profile-grid">
+                <div className="form-group">
+                    <label htmlFor={`${idPrefix}-birthDate`}>생년월일</label>
+                    <div className="form-row">
+                        <input type="date" id={`${idPrefix}-birthDate`} value={value.birthDate || ''} onChange={e => set('birthDate', e.target.value)} />
+                        <select value={value.birthCalendar || '양력'} onChange={e => set('birthCalendar', e.target.value === '음력' ? '음력' : '')} aria-label="양력/음력">
+                            {CALENDAR_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                        </select>
+                    </div>
+                </div>
+                <div className="form-group">
+                    <label htmlFor={`${idPrefix}-gender`}>성별</label>
+                    <select id={`${idPrefix}-gender`} value={value.gender || ''} onChange={e => set('gender', e.target.value)}>
+                        <option value="">선택 안 함</option>
+                        {GENDERS.map(gender => <option key={gender} value={gender}>{gender}</option>)}
+                    </select>
+                </div>
+            </div>
+            <div className="form-group">
+                <label htmlFor={`${idPrefix}-address`}>주소</label>
+                <input type="text" id={`${idPrefix}-address`} value={value.address || ''} onChange={e => set('address', e.target.value)} />
+            </div>
+            <div className="profile-grid">
+                <div className="form-group">
+                    <label htmlFor={`${idPrefix}-registeredDate`}>등록일</label>
+                    <input type="date" id={`${idPrefix}-registeredDate`} value={value.registeredDate || ''} onChange={e => set('registeredDate', e.target.value)} />
+                </div>
+                <div className="form-group">
+                    <label htmlFor={`${idPrefix}-baptismDate`}>세례일</label>
+                    <input type="date" id={`${idPrefix}-baptismDate`} value={value.baptismDate || ''} onChange={e => set('baptismDate', e.target.value)} />
+                </div>
+            </div>
+            <div className="form-group">
+                <label htmlFor={`${idPrefix}-notes`}>메모</label>
+                <textarea id={`${idPrefix}-notes`} rows={3} value={value.notes || ''} onChange={e => set('notes', e.target.value)} />
+            </div>
+        </details>
+    );
+};
+
+const MembershipStatusField: FC<{ id: string; value: MembershipStatus; onChange: (status: MembershipStatus) => void }> = ({ id, value, onChange }) => (
+    <div className="form-group">
+        <label htmlFor={id}>교적 상태</label>
+        <select id={id} value={value} onChange={e => onChange(e.target.value as MembershipStatus)}>
+            {MEMBERSHIP_STATUSES.map(status => <option key={status} value={status}>{status}</option>)}
+        </select>
+        {(INACTIVE_MEMBERSHIP_STATUSES as readonly MembershipStatus[]).includes(value) && (
+            <span className="form-hint">출석률과 통계에서 제외되지만 지난 출석 기록은 그대로 보관됩니다.</span>
+        )}
+    </div>
+);
+
+const DuplicateWarning: FC<{ candidates: DuplicateCandidate[] }> = ({ candidates }) => {
+    if (candidates.length === 0) return null;
+    return (
+        <div className="duplicate-warning" role="status">
+            <strong>⚠️ 이미 등록된 교인과 중복일 수 있습니다.</strong>
+            <ul>
+                {candidates.map(({ member, reason }) => (
+                    <li key={member.id}>{member.name} ({member.position}, {member.phone || '전화번호 없음'}) · {reason}</li>
+                ))}
+            </ul>
+            <span className="form-hint">같은 분이라면 데이터 관리의 '중복 교인 병합'으로 출석 기록을 합칠 수 있습니다.</span>
+        </div>
+    );
+};
+
+const AddMemberModal: FC<{ members: Member[]; households: Household[]; groups: MemberGroup[]; onSave: (data: { name: string; position: Position; phone: string; household: HouseholdChoice; groupIds: string[]; profile: MemberProfile }) => void; onCancel: () => void; }> = ({ members, households, groups, onSave, onCancel }) => {
+    const [name, setName] = useState('');
+    const [position, setPosition] = useState<Position>('성도');
+    const [phone, setPhone] = useState('');
+    const [phoneError, setPhoneError] = useState<string | null>(null);
+    const [household, setHousehold] = useState<HouseholdChoice>({ headId: null, makeHead: false });
+    const [groupIds, setGroupIds] = useState<string[]>([]);
+    const [profile, setProfile] = useState<MemberProfile>({ membershipStatus: '새가족', registeredDate: getTodayString() });
+
+    useEffect(() => {
+        const handleEsc = (event: KeyboardEvent) => {
+           if (event.key === 'Escape') {
+              onCancel();
+           }
+        };
+        window.addEventListener('keydown', handleEsc);
+        return () => window.removeEventListener('keydown', handleEsc);
+    }, [onCancel]);
+
+    const duplicates = useMemo(() => findDuplicateMembers({ name, phone }, members), [name, phone, members]);
+
+    const handlePhoneBlur = () => {
+        setPhone(prev => formatPhoneNumber(prev) ?? prev);
+        setPhoneError(getPhoneError(phone));
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const error = getPhoneError(phone);
+        setPhoneError(error);
+        if (error || !name.trim()) return;
+        if (duplicates.some(d => d.reason === '이름·전화번호 같음') && !window.confirm(`이름과 전화번호가 같은 교인이 이미 등록되어 있습니다.\n\n그래도 추가하시겠습니까?`)) return;
+        onSave({ name, position, phone: formatPhoneNumber(phone) ?? phone, household, groupIds, profile });
+    };
+
+    return (
+        <div className="modal-overlay" onClick={onCancel} role="dialog" aria-modal="true" aria-labelledby="add-modal-title">
+            <div className="modal-content" onClick={e => e.stopPropagation()}>
+                <header className="modal-header">
+                    <h2 id="add-modal-title">새 교인 추가</h2>
+                    <button className="btn-close" onClick={onCancel} aria-label="닫기">&times;</button>
+                </header>
+                <form onSubmit={handleSubmit} className="modal-body">
+                    <div className="form-group">
+                        <label htmlFor="add-name">이름</label>
+                        <input type="text" id="add-name" name="name" value={name} onChange={e => setName(e.target.value)} required />
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="add-position">직분</label>
+                        <select id="add-position" name="position" value={position} onChange={e => setPosition(e.target.value as Position)}>
+                            {POSITIONS.map(pos => <option key={pos} value={pos}>{pos}</option>)}
+                        </select>
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="add-phone">전화번호</label>
+                        <input type="tel" id="add-phone" name="phone" value={phone} onChange={e => setPhone(e.target.value)} onBlur={handlePhoneBlur} placeholder="010-0000-0000" aria-invalid={phoneError !== null} />
+                        {phoneError && <span className="form-error">{phoneError}</span>}
+                    </div>
+                    <DuplicateWarning candidates={duplicates} />
+                    <MembershipStatusField id="add-membershipStatus" value={profile.membershipStatus || '재적'} onChange={status => setProfile(prev => ({ ...prev, membershipStatus: status }))} />
+                    <HouseholdField id="add-household" households={households} value={household} onChange={setHousehold} />
+                    <GroupField groups={groups} value={groupIds} onChange={setGroupIds} />
+                    <ProfileFields idPrefix="add" value={profile} onChange={setProfile} />
+                    <footer className="modal-footer">
+                        <button type="button" className="btn" onClick={onCancel}>취소</button>
+                        <button type="submit" className="btn btn-primary">저장</button>
+                    </footer>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+const EditMemberModal: FC<{ member: Member; members: Member[]; households: Household[]; groups: MemberGroup[]; onSave: (member: Pick<Member, 'id' | 'name' | 'position' | 'phone' | 'groupIds'>, household: HouseholdChoice, profile: MemberProfile) => void; onCancel: () => void; }> = ({ member, members, households, groups, onSave, onCancel }) => {
+    const [formData, setFormData] = useState({ name: member.name, position: member.position, phone: member.phone });
+    const [phoneError, setPhoneError] = useState<string | null>(null);
+    const [household, setHousehold] = useState<HouseholdChoice>({
+        headId: member.householdHeadId === member.id ? 'self' : member.householdHeadId ?? null,
+        makeHead: false,
+    });
+    const [groupIds, setGroupIds] = useState<string[]>(member.groupIds || []);
+    const [profile, setProfile] = useState<MemberProfile>(() => pickProfile(member));
+
+    useEffect(() => {
+        const handleEsc = (event: KeyboardEvent) => {
+           if (event.key === 'Escape') {
+              onCancel();
+           }
+        };
+        window.addEventListener('keydown', handleEsc);
+        return () => window.removeEventListener('keydown', handleEsc);
+    }, [onCancel]);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+        const { name, value } = e.target;
+        if (name === 'position') {
+            setFormData(prev => ({ ...prev, position: value as Position }));
+        } else if (name === 'name' || name === 'phone') {
+            setFormData(prev => ({ ...prev, [name]: value }));
+        }
+    };
+
+    const duplicates = useMemo(() => findDuplicateMembers({ id: member.id, name: formData.name, phone: formData.phone }, members), [member.id, formData.name, formData.phone, members]);
+
+    const handlePhoneBlur = () => {
+        setFormData(prev => ({ ...prev, phone: formatPhoneNumber(prev.phone) ?? prev.phone }));
+        setPhoneError(getPhoneError(formData.phone));
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const error = getPhoneError(formData.phone);
+        setPhoneError(error);
+        if (error) return;
+        onSave({ id: member.id, ...formData, phone: formatPhoneNumber(formData.phone) ?? formData.phone, groupIds }, household, profile);
+    };
+
+    return (
+        <div className="modal-overlay" onClick={onCancel} role="dialog" aria-modal="true" aria-labelledby="edit-modal-title">
+            <div className="modal-content" onClick={e => e.stopPropagation()}>
+                <header className="modal-header">
                     <h2 id="edit-modal-title">교인 정보 수정</h2>
                     <button className="btn-close" onClick={onCancel} aria-label="닫기">&times;</button>
                 </header>
@@ -179,8 +1559,14 @@ const EditMemberModal: FC<{ member: Member; onSave: (member: Omit<Member, 'atten
                     </div>
                     <div className="form-group">
                         <label htmlFor="phone">전화번호</label>
-                        <input type="tel" id="phone" name="phone" value={formData.phone} onChange={handleChange} required />
+                        <input type="tel" id="phone" name="phone" value={formData.phone} onChange={handleChange} onBlur={handlePhoneBlur} aria-invalid={phoneError !== null} />
+                        {phoneError && <span className="form-error">{phoneError}</span>}
                     </div>
+                    <DuplicateWarning candidates={duplicates} />
+                    <MembershipStatusField id="membershipStatus" value={profile.membershipStatus || '재적'} onChange={status => setProfile(prev => ({ ...prev, membershipStatus: status }))} />
+                    <HouseholdField id="household" households={households} memberId={member.id} value={household} onChange={setHousehold} />
+                    <GroupField groups={groups} value={groupIds} onChange={setGroupIds} />
+                    <ProfileFields idPrefix="edit" value={profile} onChange={setProfile} />
                     <footer className="modal-footer">
                         <button type="button" className="btn" onClick={onCancel}>취소</button>
                         <button type="submit" className="btn btn-primary">저장</button>
@@ -191,10 +1577,149 @@ const EditMemberModal: FC<{ member: Member; onSave: (member: Omit<Member, 'atten
     );
 };
 
-const MemberDetailModal: FC<{ member: Member; onClose: () => void }> = ({ member, onClose }) => {
-    const today = new Date();
-    const year = today.getFullYear();
-    const month = today.getMonth();
+// Shared by the detail modal and the member page.
+const MemberProfileSummary: FC<{ member: Member }> = ({ member }) => (
+    <>
+        <div className="member-detail-header">
+            {member.photo && <img className="member-photo" src={member.photo} alt={`${member.name} 사진`} />}
+            <div>
+                <h3>
+                    {member.name} <span className="position">({member.position})</span>
+                    <span className={`membership-badge ${isActiveMember(member) ? '' : 'membership-inactive'}`}>{getMembershipStatus(member)}</span>
+                </h3>
+                <p className="phone">{member.phone}</p>
+            </div>
+        </div>
+        {Object.keys(pickProfile(member)).some(key => key !== 'photo' && key !== 'membershipStatus') && (
+            <dl className="member-profile">
+                {(['birthDate', 'gender', 'address', 'registeredDate', 'baptismDate', 'notes'] as const).filter(key => member[key]).map(key => (
+                    <div key={key}>
+                        <dt>{PROFILE_FIELD_LABELS[key]}</dt>
+                        <dd>{member[key]}{key === 'birthDate' && member.birthCalendar === '음력' && ' (음력)'}</dd>
+                    </div>
+                ))}
+            </dl>
+        )}
+        {!isActiveMember(member) && (
+            <p className="form-hint">{getMembershipStatus(member)} 교인은 교회 출석률과 통계에서 제외됩니다. 아래 기록은 보관용입니다.</p>
+        )}
+    </>
+);
+
+const MemberNotesHistory: FC<{ member: Member; changeLog: ChangeLogEntry[] }> = ({ member, changeLog }) => (
+    <>
+        {member.followUps && member.followUps.length > 0 && (
+            <div className="follow-up-history">
+                <h4>심방 기록</h4>
+                <ul>
+                    {[...member.followUps].sort((a, b) => b.date.localeCompare(a.date)).map(followUp => (
+                        <li key={followUp.id}>
+                            <span className="follow-up-meta">{followUp.date} · {followUp.type}</span>
+                            {followUp.note && <p>{followUp.note}</p>}
+                        </li>
+                    ))}
+                </ul>
+            </div>
+        )}
+        <details className="change-log">
+            <summary>변경 기록 ({changeLog.length}건)</summary>
+            {changeLog.length > 0 ? (
+                <ul>
+                    {changeLog.map(entry => (
+                        <li key={entry.id}>
+                            <span className="change-log-meta">{formatTimestamp(entry.timestamp)} · {entry.action}{entry.actor && ` · ${entry.actor}`}</span>
+                            <ul className="change-log-details">
+                                {entry.details.map((detail, i) => <li key={i}>{detail}</li>)}
+                            </ul>
+                        </li>
+                    ))}
+                </ul>
+            ) : (
+                <p className="form-hint">기록된 변경 사항이 없습니다.</p>
+            )}
+        </details>
+    </>
+);
+
+// Excuses for the same member may not overlap, so each date has at most one.
+const getExcuseError = (candidate: Pick<AttendanceExcuse, 'status' | 'from' | 'to'>, others: AttendanceExcuse[]) => {
+    if (!EXCUSE_STATUSES.includes(candidate.status)) return `기간 사유로 쓸 수 없는 출결입니다: ${candidate.status}`;
+    if (!isValidDateKey(candidate.from) || !isValidDateKey(candidate.to)) return '시작일과 종료일을 입력해주세요.';
+    if (candidate.to < candidate.from) return '종료일이 시작일보다 빠릅니다.';
+    const overlap = others.find(excuse => excuse.from <= candidate.to && candidate.from <= excuse.to);
+    return overlap ? `이미 등록된 기간 사유(${overlap.status} ${overlap.from} ~ ${overlap.to})와 겹칩니다.` : null;
+};
+
+const ExcuseList: FC<{ excuses?: AttendanceExcuse[]; onRemove?: (excuse: AttendanceExcuse) => void }> = ({ excuses = [], onRemove }) => {
+    if (excuses.length === 0) return null;
+    return (
+        <ul className="excuse-list" aria-label="기간 사유">
+            {[...excuses].sort((a, b) => b.from.localeCompare(a.from)).map(excuse => (
+                <li key={excuse.id}>
+                    <span className="excuse-status">{excuse.status}</span>
+                    <span>{excuse.from} ~ {excuse.to}{excuse.note && ` · ${excuse.note}`}</span>
+                    {onRemove && <button className="btn btn-delete" onClick={() => onRemove(excuse)}>삭제</button>}
+                </li>
+            ))}
+        </ul>
+    );
+};
+
+const ExcuseForm: FC<{ excuses: AttendanceExcuse[]; onAdd: (excuse: Omit<AttendanceExcuse, 'id'>) => void }> = ({ excuses, onAdd }) => {
+    const [status, setStatus] = useState<ExcuseStatus>('병결');
+    const [from, setFrom] = useState(getTodayString());
+    const [to, setTo] = useState(getTodayString());
+    const [note, setNote] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const excuseError = getExcuseError({ status, from, to }, excuses);
+        if (excuseError) {
+            setError(excuseError);
+            return;
+        }
+        onAdd({ status, from, to, ...(note.trim() ? { note: note.trim() } : {}) });
+        setNote('');
+        setError(null);
+    };
+
+    return (
+        <form className="excuse-form" onSubmit={handleSubmit}>
+            <select value={status} onChange={e => setStatus(e.target.value as ExcuseStatus)} aria-label="사유">
+                {EXCUSE_STATUSES.map(s => <option key={s} value={s}>{s}</option>)}
+            </select>
+            <input type="date" value={from} onChange={e => { setFrom(e.target.value); setError(null); }} aria-label="시작일" />
+            <span>~</span>
+            <input type="date" value={to} onChange={e => { setTo(e.target.value); setError(null); }} aria-label="종료일" />
+            <input type="text" value={note} onChange={e => setNote(e.target.value)} placeholder="메모 (예: ○○병원 입원)" aria-label="메모" />
+            <button type="submit" className="btn btn-primary">기간 사유 추가</button>
+            {error && <p className="form-error" role="alert">{error}</p>}
+        </form>
+    );
+};
+
+const MemberDetailModal: FC<{
+    member: Member;
+    services: ServiceType[];
+    changeLog: ChangeLogEntry[];
+    heldServices: HeldServices;
+    heldSundays: string[];
+    specialDays: SpecialDay[];
+    onAttendanceChange: (id: number, date: string, serviceId: string, status: AttendanceStatus | '미정') => void;
+    onClose: () => void;
+}> = ({ member, services, changeLog, heldServices, heldSundays, specialDays, onAttendanceChange, onClose }) => {
+    const todayString = getTodayString();
+    const [year, setYear] = useState(() => parseDateString(todayString).getFullYear());
+    const [month, setMonth] = useState(() => parseDateString(todayString).getMonth());
+    const [editingDate, setEditingDate] = useState<string | null>(null);
+
+    const showMonth = (targetYear: number, targetMonth: number) => {
+        const first = new Date(targetYear, targetMonth, 1);
+        setYear(first.getFullYear());
+        setMonth(first.getMonth());
+        setEditingDate(null);
+    };
 
     const calendarData = useMemo(() => {
         const firstDay = new Date(year, month, 1);
@@ -212,20 +1737,66 @@ const MemberDetailModal: FC<{ member: Member; onClose: () => void }> = ({ member
         return days;
     }, [year, month]);
 
+    const records = useMemo(() => getEffectiveRecords(member), [member]);
+
+    const recordYears = useMemo(() => {
+        const years = new Set<number>(records.map(({ date }) => Number(date.slice(0, 4))));
+        years.add(parseDateString(todayString).getFullYear());
+        years.add(year);
+        return Array.from(years).sort((a, b) => b - a);
+    }, [records, todayString, year]);
+
     const stats = useMemo(() => {
-        const yearAtt = Object.entries(member.attendance).filter(([date]) => date.startsWith(String(year)));
-        const monthAtt = yearAtt.filter(([date]) => new Date(date).getMonth() === month);
+        // Each held (date, service) counts as one attendance opportunity, marked or not; excused ones are left out.
+        const yearAtt = getHeldServiceRecords(member, heldServices, `${year}-01-01`, `${year}-12-31`);
+        const monthAtt = yearAtt.filter(({ date }) => Number(date.split('-')[1]) - 1 === month);
+
+        const byService = services
+            .map(service => ({ service, tally: tallyRecords(yearAtt.filter(({ serviceId }) => serviceId === service.id)) }))
+            .filter(({ tally }) => tally.marked > 0);
+
+        return {
+            month: tallyRecords(monthAtt),
+            year: tallyRecords(yearAtt),
+            excusedYear: yearAtt.filter(({ status }) => ATTENDANCE_OUTCOMES[status] === 'excused').length,
+            byService,
+        };
+    }, [member, heldServices, services, year, month]);
+
+    const sundayServiceIds = useMemo(() => getSundayServiceIds(services), [services]);
+    const countedSundaySet = useMemo(() => new Set(getCountedSundays(member, heldSundays, sundayServiceIds)), [member, heldSundays, sundayServiceIds]);
+    const specialDayMap = useMemo(() => new Map(specialDays.map(day => [day.date, day])), [specialDays]);
+    const monthSpecialCategories = SPECIAL_DAY_CATEGORY_ORDER.filter(category => specialDays.some(day =>
+        SPECIAL_DAY_CATEGORIES[day.kind] === category && day.date.startsWith(`${year}-${String(month + 1).padStart(2, '0')}-`)));
+    const specialClass = (date: string) => {
+        const specialDay = specialDayMap.get(date);
+        return specialDay ? `special-${SPECIAL_DAY_CATEGORIES[specialDay.kind]}` : '';
+    };
+    const streaks = useMemo(() => computeSundayStreaks(member, heldSundays, sundayServiceIds), [member, heldSundays, sundayServiceIds]);
+    const attendedDates = useMemo(() => records.filter(({ status }) => isPresentStatus(status)).map(({ date }) => date).sort(), [records]);
 
-        const totalYear = yearAtt.length;
-        const presentYear = yearAtt.filter(([, status]) => status === '출석').length;
-        const yearRate = totalYear > 0 ? ((presentYear / totalYear) * 100).toFixed(0) : 0;
+    const heatmap = useMemo(() => generateYearlySundays(year).map(({ month: sundayMonth, sundays }) => ({
+        month: sundayMonth,
+        sundays: sundays.map(toDateString).map(date => ({
+            date,
+            outcome: countedSundaySet.has(date) ? getSundayOutcome(member, date, sundayServiceIds) : undefined,
+        })),
+    })), [year, member, countedSundaySet, sundayServiceIds]);
 
-        const totalMonth = monthAtt.length;
-        const presentMonth = monthAtt.filter(([, status]) => status === '출석').length;
-        const monthRate = totalMonth > 0 ? ((presentMonth / totalMonth) * 100).toFixed(0) : 0;
+    // A day shows as present if the member attended any of that day's services, and as excused when
+    // nothing was missed without an excuse, including service days covered only by an excuse.
+    const getDayOutcome = (dateStr: string): AttendanceOutcome | undefined => {
+        const outcomes = Object.keys(member.attendance[dateStr] || {}).map(serviceId => ATTENDANCE_OUTCOMES[getEffectiveStatus(member, dateStr, serviceId)!]);
+        if (outcomes.length === 0) {
+            return findExcuse(member, dateStr) && services.some(s => s.dayOfWeek === getDayOfWeek(dateStr)) ? 'excused' : undefined;
+        }
+        return outcomes.includes('present') ? 'present' : outcomes.includes('absent') ? 'absent' : 'excused';
+    };
 
-        return { presentMonth, totalMonth, monthRate, presentYear, totalYear, yearRate };
-    }, [member.attendance, year, month]);
+    // The services held on that weekday, plus any other service the member already has a record for that day.
+    const editingServices = editingDate
+        ? services.filter(s => s.dayOfWeek === getDayOfWeek(editingDate) || member.attendance[editingDate]?.[s.id] !== undefined)
+        : [];
 
     return (
         <div className="modal-overlay" onClick={onClose} role="dialog" aria-modal="true" aria-labelledby="detail-modal-title">
@@ -235,16 +1806,64 @@ const MemberDetailModal: FC<{ member: Member; onClose: () => void }> = ({ member
                     <button className="btn-close" onClick={onClose} aria-label="닫기">&times;</button>
                 </header>
                 <div className="modal-body">
-                    <div className="member-detail-header">
-                        <h3>{member.name} <span className="position">({member.position})</span></h3>
-                        <p className="phone">{member.phone}</p>
+                    <MemberProfileSummary member={member} />
+                    <a className="btn member-page-link" href={`#/members/${member.id}`} onClick={onClose}>전체 기록 보기 →</a>
+                    <div className="history-navigator">
+                        <button className="btn" onClick={() => showMonth(year, month - 1)} aria-label="이전 달">&lt;</button>
+                        <select value={year} onChange={e => showMonth(Number(e.target.value), month)} aria-label="연도">
+                            {recordYears.map(y => <option key={y} value={y}>{y}년</option>)}
+                        </select>
+                        <select value={month} onChange={e => showMonth(year, Number(e.target.value))} aria-label="월">
+                            {Array.from({ length: 12 }, (_, i) => <option key={i} value={i}>{i + 1}월</option>)}
+                        </select>
+                        <button className="btn" onClick={() => showMonth(year, month + 1)} aria-label="다음 달">&gt;</button>
+                        <button className="btn" onClick={() => showMonth(parseDateString(todayString).getFullYear(), parseDateString(todayString).getMonth())}>이번 달</button>
                     </div>
                     <div className="attendance-stats">
                         <h4>출석 현황</h4>
                         <div className="stats-grid">
-                            <div><strong>금월 출석</strong><span>{stats.presentMonth} / {stats.totalMonth} 회 ({stats.monthRate}%)</span></div>
-                            <div><strong>연간 출석</strong><span>{stats.presentYear} / {stats.totalYear} 회 ({stats.yearRate}%)</span></div>
+                            <div><strong>{month + 1}월 출석</strong><span>{formatTally(stats.month)}</span></div>
+                            <div><strong>{year}년 출석</strong><span>{formatTally(stats.year)}</span></div>
+                            <div><strong>최장 연속 출석</strong><span>{streaks.longest}주</span></div>
+                            <div><strong>현재 연속 출석</strong><span>{streaks.current}주</span></div>
+                            <div><strong>첫 출석일</strong><span>{attendedDates[0] || '-'}</span></div>
+                            <div><strong>마지막 출석일</strong><span>{attendedDates[attendedDates.length - 1] || '-'}</span></div>
+                        </div>
+                        <p className="form-hint">누군가의 출결이 입력된 예배를 모두 세며, 이 교인만 체크되지 않은 예배는 결석으로 계산합니다. 휴예배로 지정한 날은 제외됩니다.</p>
+                        {stats.excusedYear > 0 && <p className="form-hint">병결·출장/여행·군복무 {stats.excusedYear}회는 출석률에서 제외되었습니다.</p>}
+                        {stats.byService.length > 0 && (
+                            <ul className="service-stats-list">
+                                {stats.byService.map(({ service, tally }) => (
+                                    <li key={service.id}>
+                                        <span>{service.name}</span>
+                                        <span>{formatTally(tally)}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                        <ExcuseList excuses={member.excuses} />
+                    </div>
+                    <div className="sunday-heatmap" aria-label={`${year}년 주일 출석`}>
+                        <h4>{year}년 주일 출석</h4>
+                        <div className="sunday-heatmap-months">
+                            {heatmap.map(({ month: sundayMonth, sundays }) => (
+                                <div key={sundayMonth} className={`sunday-heatmap-month ${sundayMonth - 1 === month ? 'current' : ''}`}>
+                                    <span className="sunday-heatmap-label">{sundayMonth}월</span>
+                                    <div className="sunday-heatmap-cells">
+                                        {sundays.map(({ date, outcome }) => (
+                                            <button
+                                                key={date}
+                                                className={`sunday-heatmap-cell ${outcome ? `day-${outcome}` : ''} ${specialClass(date)} ${date === editingDate ? 'day-selected' : ''}`}
+                                                title={`${date} ${outcome ? DAY_OUTCOME_LABELS[outcome] : '기록 없음'}${specialDayMap.has(date) ? ` · ${formatSpecialDay(specialDayMap.get(date)!)}` : ''}`}
+                                                onClick={() => { showMonth(year, sundayMonth - 1); if (date <= todayString) setEditingDate(date); }}
+                                                aria-label={`${date} 보기`}
+                                            />
+                                        ))}
+                                    </div>
+                                </div>
+                            ))}
                         </div>
+                        <p className="form-hint">누군가의 주일 출결이 입력된 날만 표시하며, 사유(병결 등)로 빠진 주일은 연속 출석을 끊지 않습니다.</p>
                     </div>
                     <div className="calendar-container">
                         <h4>{year}년 {month + 1}월</h4>
@@ -254,11 +1873,28 @@ const MemberDetailModal: FC<{ member: Member; onClose: () => void }> = ({ member
                         <div className="calendar-grid">
                             {calendarData.map((day, index) => {
                                 if (!day) return <div key={`empty-${index}`} className="calendar-day empty"></div>;
-                                const dateStr = day.toISOString().split('T')[0];
-                                const status = member.attendance[dateStr];
-                                const isToday = dateStr === getTodayString();
+                                const dateStr = toDateString(day);
+                                const outcome = getDayOutcome(dateStr);
+                                const isToday = dateStr === todayString;
+                                const isEditable = dateStr <= todayString;
+                                const excuse = findExcuse(member, dateStr);
+                                const specialDay = specialDayMap.get(dateStr);
+                                const title = [
+                                    ...(specialDay ? [formatSpecialDay(specialDay)] : []),
+                                    ...Object.keys(member.attendance[dateStr] || {})
+                                        .map(serviceId => `${services.find(svc => svc.id === serviceId)?.name || serviceId}: ${getEffectiveStatus(member, dateStr, serviceId)}`),
+                                    ...(excuse ? [`기간 사유: ${excuse.status}${excuse.note ? ` (${excuse.note})` : ''}`] : []),
+                                ].join('\n');
                                 return (
-                                    <div key={dateStr} className={`calendar-day ${status ? (status === '출석' ? 'day-present' : 'day-absent') : ''} ${isToday ? 'day-today' : ''}`}>
+                                    <div
+                                        key={dateStr}
+                                        title={title || undefined}
+                                        className={`calendar-day ${outcome ? `day-${outcome}` : ''} ${specialClass(dateStr)} ${isToday ? 'day-today' : ''} ${isEditable ? 'day-editable' : ''} ${dateStr === editingDate ? 'day-selected' : ''}`}
+                                        onClick={isEditable ? () => setEditingDate(dateStr === editingDate ? null : dateStr) : undefined}
+                                        role={isEditable ? 'button' : undefined}
+                                        tabIndex={isEditable ? 0 : undefined}
+                                        onKeyDown={isEditable ? e => { if (e.key === 'Enter' || e.key === ' ') { e.preventDefault(); setEditingDate(dateStr); } } : undefined}
+                                    >
                                         {day.getDate()}
                                     </div>
                                 );
@@ -267,214 +1903,4417 @@ const MemberDetailModal: FC<{ member: Member; onClose: () => void }> = ({ member
                          <div className="calendar-legend">
                             <span className="legend-item"><span className="legend-color day-present"></span> 출석</span>
                             <span className="legend-item"><span className="legend-color day-absent"></span> 결석</span>
+                            <span className="legend-item"><span className="legend-color day-excused"></span> 사유(출석률 제외)</span>
                             <span className="legend-item"><span className="legend-color day-today"></span> 오늘</span>
+                            {monthSpecialCategories.map(category => (
+                                <span key={category} className="legend-item"><span className={`legend-color special-${category}`}></span> {SPECIAL_DAY_CATEGORY_LABELS[category]}</span>
+                            ))}
                         </div>
+                        {editingDate ? (
+                            <div className="day-editor" aria-label={`${editingDate} 출결 수정`}>
+                                <h5>{editingDate} ({WEEKDAY_NAMES[getDayOfWeek(editingDate)]}) 출결 수정</h5>
+                                {editingServices.length > 0 ? editingServices.map(service => (
+                                    <div key={service.id} className="day-editor-row">
+                                        <span>{service.name}</span>
+                                        <AttendanceButtons
+                                            member={member}
+                                            date={editingDate}
+                                            status={getEffectiveStatus(member, editingDate, service.id)}
+                                            onChange={next => onAttendanceChange(member.id, editingDate, service.id, next)}
+                                        />
+                                    </div>
+                                )) : (
+                                    <p className="form-hint">이 요일에 드리는 예배가 없습니다.</p>
+                                )}
+                            </div>
+                        ) : (
+                            <p className="form-hint">오늘까지의 날짜를 누르면 그날의 출결을 바로 고칠 수 있습니다.</p>
+                        )}
                     </div>
+                    <MemberNotesHistory member={member} changeLog={changeLog} />
                 </div>
             </div>
         </div>
     );
 };
 
-const Pagination: FC<{ currentPage: number; totalPages: number; onPageChange: (page: number) => void; }> = ({ currentPage, totalPages, onPageChange }) => {
-    if (totalPages <= 1) return null;
-
-    const handlePrev = () => {
-        if (currentPage > 1) onPageChange(currentPage - 1);
-    };
-    const handleNext = () => {
-        if (currentPage < totalPages) onPageChange(currentPage + 1);
-    };
+const MemberDetailPage: FC<{
+    member: Member;
+    services: ServiceType[];
+    heldServices: HeldServices;
+    changeLog: ChangeLogEntry[];
+    onEdit: (member: Member) => void;
+    onAddFollowUp: (member: Member) => void;
+    onAddExcuse: (memberId: number, excuse: Omit<AttendanceExcuse, 'id'>) => void;
+    onRemoveExcuse: (memberId: number, excuse: AttendanceExcuse) => void;
+}> = ({ member, services, heldServices, changeLog, onEdit, onAddFollowUp, onAddExcuse, onRemoveExcuse }) => {
+    // Every year with records, newest first, tallied by month and by service over the held services.
+    const history = useMemo(() => {
+        const records = getEffectiveRecords(member);
+        const years = Array.from(new Set(records.map(({ date }) => Number(date.slice(0, 4))))).sort((a, b) => b - a);
+        return years.map(year => {
+            const ofYear = records.filter(({ date }) => date.startsWith(`${year}-`)).sort((a, b) => b.date.localeCompare(a.date));
+            const held = getHeldServiceRecords(member, heldServices, `${year}-01-01`, `${year}-12-31`);
+            return {
+                year,
+                records: ofYear,
+                total: tallyRecords(held),
+                months: Array.from({ length: 12 }, (_, i) => tallyRecords(held.filter(({ date }) => Number(date.slice(5, 7)) === i + 1))),
+                byService: services
+                    .map(service => ({ service, tally: tallyRecords(held.filter(({ serviceId }) => serviceId === service.id)) }))
+                    .filter(({ tally }) => tally.marked > 0),
+            };
+        });
+    }, [member, services, heldServices]);
 
-    const pageNumbers = Array.from({ length: totalPages }, (_, i) => i + 1);
+    const rateClass = ({ present, marked }: AttendanceTally) =>
+        marked === 0 ? '' : present / marked >= 0.75 ? 'rate-high' : present / marked >= 0.5 ? 'rate-mid' : 'rate-low';
 
     return (
-        <nav className="pagination-container" aria-label="페이지네이션">
-            <button onClick={handlePrev} disabled={currentPage === 1} className="pagination-button">
-                이전
-            </button>
-            {pageNumbers.map(number => (
+        <section className="member-page" aria-labelledby="member-page-title">
+            <div className="member-page-header">
+                <a className="btn" href="#/">&lt; 출석부</a>
+                <h2 id="member-page-title">교인 상세 정보</h2>
+                <div className="filter-buttons">
+                    <button className="btn" onClick={() => onAddFollowUp(member)}>심방 기록 추가</button>
+                    <button className="btn btn-edit" onClick={() => onEdit(member)}>수정</button>
+                </div>
+            </div>
+            <MemberProfileSummary member={member} />
+            <div className="attendance-stats">
+                <h4>기간 사유</h4>
+                <p className="form-hint">입원·출장·군복무처럼 기간이 정해진 사유를 등록하면, 그 기간의 미체크·결석은 자동으로 해당 사유로 처리되어 출석률에서 제외됩니다.</p>
+                <ExcuseList excuses={member.excuses} onRemove={excuse => onRemoveExcuse(member.id, excuse)} />
+                <ExcuseForm excuses={member.excuses || []} onAdd={excuse => onAddExcuse(member.id, excuse)} />
+            </div>
+            <div className="attendance-stats">
+                <h4>연도별 출석</h4>
+                {history.length === 0 ? (
+                    <p className="no-members">출석 기록이 없습니다.</p>
+                ) : (
+                    <div className="table-container">
+                        <table className="member-table member-history-table">
+                            <thead>
+                                <tr>
+                                    <th>연도</th>
+                                    {Array.from({ length: 12 }, (_, i) => <th key={i}>{i + 1}월</th>)}
+                                    <th>합계</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {history.map(({ year, months, total }) => (
+                                    <tr key={year}>
+                                        <th scope="row">{year}</th>
+                                        {months.map((tally, i) => (
+                                            <td key={i} className={rateClass(tally)}>{tally.marked > 0 ? `${tally.present}/${tally.marked}` : ''}</td>
+                                        ))}
+                                        <td className={rateClass(total)}><strong>{formatTally(total)}</strong></td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+            {history.map(({ year, records, byService }) => (
+                <details key={year} className="member-year-details">
+                    <summary>{year}년 출석 기록 ({records.length}건)</summary>
+                    {byService.length > 0 && (
+                        <ul className="service-stats-list">
+                            {byService.map(({ service, tally }) => (
+                                <li key={service.id}>
+                                    <span>{service.name}</span>
+                                    <span>{formatTally(tally)}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                    <table className="member-table">
+                        <thead>
+                            <tr><th>날짜</th><th>예배</th><th>출결</th></tr>
+                        </thead>
+                        <tbody>
+                            {records.map(({ date, serviceId, status }) => (
+                                <tr key={`${date}|${serviceId}`}>
+                                    <td>{date} ({WEEKDAY_NAMES[getDayOfWeek(date)]})</td>
+                                    <td>{services.find(service => service.id === serviceId)?.name || serviceId}</td>
+                                    <td className={getStatusClassName(status)}>{status}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </details>
+            ))}
+            <MemberNotesHistory member={member} changeLog={changeLog} />
+        </section>
+    );
+};
+
+const DateRepairNotice: FC<{ repairs: DateKeyRepair[]; onDismiss: () => void; }> = ({ repairs, onDismiss }) => {
+    const conflicts = repairs.filter(r => r.conflict).length;
+    return (
+        <section className="date-repair-notice" role="status">
+            <div className="date-repair-summary">
+                <span>
+                    📅 시간대 차이로 하루 앞당겨 저장된 출석 기록 <strong>{repairs.length}건</strong>을 찾아 올바른 날짜로 옮겼습니다.
+                    {conflicts > 0 && <> (다음 날에 이미 기록이 있던 {conflicts}건은 옮기지 않고 원래 날짜에 두었습니다.)</>}
+                </span>
+                <button className="btn" onClick={onDismiss}>확인</button>
+            </div>
+            <details>
+                <summary>보정 내역 보기</summary>
+                <ul className="date-repair-list">
+                    {repairs.map((repair, index) => (
+                        <li key={index}>
+                            {repair.memberName} · {repair.serviceName}: {repair.from} → {repair.to}
+                            {repair.conflict && <span className="date-repair-conflict"> (옮기지 않음)</span>}
+                        </li>
+                    ))}
+                </ul>
+            </details>
+        </section>
+    );
+};
+
+interface AbsenteeInfo {
+  member: Member;
+  consecutiveAbsences: number;
+  absentSince: string | null; // first Sunday of the current absence streak
+  lastAttended: string | null;
+  lastFollowUp: FollowUpNote | null;
+}
+
+const getSundayServiceIds = (services: ServiceType[]) => new Set(services.filter(s => s.dayOfWeek === 0).map(s => s.id));
+
+// Sundays up to `today`, newest first, on which a Sunday service was held (see findHeldServices),
+// so Sundays that haven't been entered yet or were cancelled don't count as anyone's absence.
+const findHeldSundays = (heldServices: HeldServices, services: ServiceType[], today: string): string[] => {
+    const recordedSundays = new Set(Array.from(getSundayServiceIds(services)).flatMap(serviceId => heldServices.get(serviceId) ?? []));
+    if (recordedSundays.size === 0) return [];
+
+    const firstYear = Math.min(...Array.from(recordedSundays, date => Number(date.slice(0, 4))));
+    const heldSundays: string[] = [];
+    for (let year = parseDateString(today).getFullYear(); year >= firstYear; year--) {
+        generateYearlySundays(year)
+            .flatMap(({ sundays }) => sundays)
+            .map(toDateString)
+            .filter(date => date <= today && recordedSundays.has(date))
+            .reverse()
+            .forEach(date => heldSundays.push(date));
+    }
+    return heldSundays;
+};
+
+// Present if the member attended any Sunday service that day; excused only if every service was excused.
+const getSundayOutcome = (member: Member, date: string, sundayServiceIds: Set<string>): AttendanceOutcome => {
+    const outcomes = Array.from(sundayServiceIds, serviceId => getEffectiveStatus(member, date, serviceId))
+        .flatMap(status => (status ? [ATTENDANCE_OUTCOMES[status]] : []));
+    if (outcomes.includes('present')) return 'present';
+    return outcomes.length > 0 && outcomes.every(outcome => outcome === 'excused') ? 'excused' : 'absent';
+};
+
+// The held Sundays that count for the member, in the given order: like rates (see getHeldServiceRecords), those from
+// the counting start on, and earlier ones only where the member has a record.
+const getCountedSundays = (member: Member, heldSundays: string[], sundayServiceIds: Set<string>) => {
+    const since = getCountingStart(member);
+    if (since === null) return [];
+    return heldSundays.filter(date => date >= since || Array.from(sundayServiceIds).some(serviceId => member.attendance[date]?.[serviceId] !== undefined));
+};
+
+// Runs of attended Sundays over `heldSundays` (newest first). Excused Sundays are skipped without ending a run.
+const computeSundayStreaks = (member: Member, heldSundays: string[], sundayServiceIds: Set<string>) => {
+    const countedSundays = getCountedSundays(member, heldSundays, sundayServiceIds);
+    let longest = 0;
+    let current = 0;
+    for (let i = countedSundays.length - 1; i >= 0; i--) {
+        const outcome = getSundayOutcome(member, countedSundays[i], sundayServiceIds);
+        if (outcome === 'present') {
+            current++;
+            longest = Math.max(longest, current);
+        } else if (outcome === 'absent') {
+            current = 0;
+        }
+    }
+    return { longest, current };
+};
+
+const findLongTermAbsentees = (members: Member[], services: ServiceType[], heldSundays: string[], threshold: number): AbsenteeInfo[] => {
+    const sundayServiceIds = getSundayServiceIds(services);
+    if (heldSundays.length === 0) return [];
+
+    // Excused Sundays (병결, 군복무 …) neither add to the streak nor end it.
+    return members
+        .filter(isActiveMember)
+        .map(member => {
+            let consecutiveAbsences = 0;
+            let absentSince: string | null = null;
+            let lastAttended: string | null = null;
+            for (const date of getCountedSundays(member, heldSundays, sundayServiceIds)) {
+                const outcome = getSundayOutcome(member, date, sundayServiceIds);
+                if (outcome === 'present') {
+                    lastAttended = date;
+                    break;
+                }
+                if (outcome === 'absent') {
+                    consecutiveAbsences++;
+                    absentSince = date;
+                }
+            }
+            const followUps = [...(member.followUps || [])].sort((a, b) => b.date.localeCompare(a.date));
+            return {
+                member,
+                consecutiveAbsences,
+                absentSince,
+                lastAttended,
+                lastFollowUp: followUps[0] ?? null,
+            };
+        })
+        .filter(info => info.consecutiveAbsences >= threshold)
+        .sort((a, b) => b.consecutiveAbsences - a.consecutiveAbsences || a.member.name.localeCompare(b.member.name, 'ko'));
+};
+
+interface AttendanceStats {
+  weekly: { weekStart: string; present: number }[];
+  monthly: { month: number; average: number; rate: number }[];
+  byPosition: { position: Position; memberCount: number; present: number; total: number }[];
+  totalPresent: number;
+  totalRecords: number;
+}
+
+const computeAttendanceStats = (members: Member[], heldServices: HeldServices, year: number, serviceIds: Set<string>): AttendanceStats => {
+    const weeklyPresent = new Map<string, number>(generateYearlySundays(year).flatMap(({ sundays }) => sundays).map(day => [toDateString(day), 0]));
+    const monthlyPresent = Array<number>(12).fill(0);
+    const monthlyTotal = Array<number>(12).fill(0);
+    const monthlyOccurrences = Array.from({ length: 12 }, () => new Set<string>());
+    const positionStats = new Map<Position, { memberCount: number; present: number; total: number }>();
+    let totalPresent = 0;
+    let totalRecords = 0;
+
+    members.filter(isActiveMember).forEach(member => {
+        const stats = positionStats.get(member.position) || { memberCount: 0, present: 0, total: 0 };
+        stats.memberCount++;
+        getHeldServiceRecords(member, heldServices, `${year}-01-01`, `${year}-12-31`).forEach(({ date, serviceId, status }) => {
+            if (!serviceIds.has(serviceId)) return;
+            const month = Number(date.split('-')[1]) - 1;
+            monthlyOccurrences[month].add(`${date}|${serviceId}`);
+            if (ATTENDANCE_OUTCOMES[status] === 'excused') return;
+            monthlyTotal[month]++;
+            stats.total++;
+            totalRecords++;
+            if (ATTENDANCE_OUTCOMES[status] !== 'present') return;
+            monthlyPresent[month]++;
+            stats.present++;
+            totalPresent++;
+            // Weeks run from Sunday to Saturday; days before the first Sunday belong to last year's final week.
+            const weekStart = addDays(date, -getDayOfWeek(date));
+            const weekCount = weeklyPresent.get(weekStart);
+            if (weekCount !== undefined) weeklyPresent.set(weekStart, weekCount + 1);
+        });
+        positionStats.set(member.position, stats);
+    });
+
+    return {
+        weekly: Array.from(weeklyPresent, ([weekStart, present]) => ({ weekStart, present })),
+        monthly: monthlyPresent.map((present, month) => ({
+            month: month + 1,
+            average: monthlyOccurrences[month].size > 0 ? present / monthlyOccurrences[month].size : 0,
+            rate: monthlyTotal[month] > 0 ? (present / monthlyTotal[month]) * 100 : 0,
+        })),
+        byPosition: POSITIONS.filter(position => positionStats.has(position)).map(position => ({ position, ...positionStats.get(position)! })),
+        totalPresent,
+        totalRecords,
+    };
+};
+
+interface ChartSeries {
+  label: string;
+  color: string;
+  values: number[];
+}
+
+const CHART_WIDTH = 640;
+const CHART_PADDING = { top: 12, right: 12, bottom: 28, left: 36 };
+
+const ChartLegend: FC<{ series: ChartSeries[] }> = ({ series }) => (
+    <div className="chart-legend">
+        {series.map(({ label, color }) => (
+            <span key={label} className="legend-item"><span className="legend-swatch" style={{ backgroundColor: color }}></span> {label}</span>
+        ))}
+    </div>
+);
+
+const ChartGrid: FC<{ maxValue: number; height: number; format: (value: number) => string }> = ({ maxValue, height, format }) => {
+    const plotHeight = height - CHART_PADDING.top - CHART_PADDING.bottom;
+    return (
+        <g className="chart-grid">
+            {[0, 0.5, 1].map(ratio => {
+                const y = CHART_PADDING.top + plotHeight * (1 - ratio);
+                return (
+                    <g key={ratio}>
+                        <line x1={CHART_PADDING.left} x2={CHART_WIDTH - CHART_PADDING.right} y1={y} y2={y} />
+                        <text x={CHART_PADDING.left - 6} y={y + 4} textAnchor="end">{format(maxValue * ratio)}</text>
+                    </g>
+                );
+            })}
+        </g>
+    );
+};
+
+const LineChart: FC<{ series: ChartSeries[]; xLabels: string[]; height?: number; title: string }> = ({ series, xLabels, height = 220, title }) => {
+    const pointCount = Math.max(xLabels.length, ...series.map(s => s.values.length));
+    const maxValue = Math.max(1, ...series.flatMap(s => s.values));
+    const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+    const plotHeight = height - CHART_PADDING.top - CHART_PADDING.bottom;
+    const x = (index: number) => CHART_PADDING.left + (pointCount > 1 ? (plotWidth * index) / (pointCount - 1) : plotWidth / 2);
+    const y = (value: number) => CHART_PADDING.top + plotHeight * (1 - value / maxValue);
+
+    return (
+        <figure className="chart">
+            <svg viewBox={`0 0 ${CHART_WIDTH} ${height}`} role="img" aria-label={title}>
+                <ChartGrid maxValue={maxValue} height={height} format={value => String(Math.round(value))} />
+                {xLabels.map((label, index) => label && (
+                    <text key={index} className="chart-x-label" x={x(index)} y={height - 8} textAnchor="middle">{label}</text>
+                ))}
+                {series.map(({ label, color, values }) => (
+                    <polyline
+                        key={label}
+                        fill="none"
+                        stroke={color}
+                        strokeWidth={2}
+                        points={values.map((value, index) => `${x(index)},${y(value)}`).join(' ')}
+                    />
+                ))}
+            </svg>
+            <ChartLegend series={series} />
+        </figure>
+    );
+};
+
+const BarChart: FC<{ series: ChartSeries[]; categories: string[]; height?: number; maxValue?: number; format?: (value: number) => string; title: string }> = ({ series, categories, height = 220, maxValue, format = value => String(Math.round(value)), title }) => {
+    const scaleMax = maxValue ?? Math.max(1, ...series.flatMap(s => s.values));
+    const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+    const plotHeight = height - CHART_PADDING.top - CHART_PADDING.bottom;
+    const groupWidth = plotWidth / Math.max(1, categories.length);
+    const barWidth = (groupWidth * 0.7) / Math.max(1, series.length);
+
+    return (
+        <figure className="chart">
+            <svg viewBox={`0 0 ${CHART_WIDTH} ${height}`} role="img" aria-label={title}>
+                <ChartGrid maxValue={scaleMax} height={height} format={format} />
+                {categories.map((category, categoryIndex) => {
+                    const groupX = CHART_PADDING.left + groupWidth * categoryIndex + groupWidth * 0.15;
+                    return (
+                        <g key={category}>
+                            {series.map(({ label, color, values }, seriesIndex) => {
+                                const value = values[categoryIndex] || 0;
+                                const barHeight = (plotHeight * Math.min(value, scaleMax)) / scaleMax;
+                                return (
+                                    <rect
+                                        key={label}
+                                        x={groupX + barWidth * seriesIndex}
+                                        y={CHART_PADDING.top + plotHeight - barHeight}
+                                        width={barWidth}
+                                        height={barHeight}
+                                        fill={color}
+                                    >
+                                        <title>{`${category} · ${label}: ${format(value)}`}</title>
+                                    </rect>
+                                );
+                            })}
+                            <text className="chart-x-label" x={groupX + groupWidth * 0.35} y={height - 8} textAnchor="middle">{category}</text>
+                        </g>
+                    );
+                })}
+            </svg>
+            <ChartLegend series={series} />
+        </figure>
+    );
+};
+
+const formatChange = (current: number, previous: number) => {
+    if (previous === 0) return current > 0 ? '신규' : '-';
+    const change = ((current - previous) / previous) * 100;
+    return `${change >= 0 ? '▲' : '▼'} ${Math.abs(change).toFixed(0)}%`;
+};
+
+const AttendanceDashboard: FC<{ members: Member[]; services: ServiceType[]; heldServices: HeldServices; year: number; positionFilter: string; onPositionFilterChange: (position: string) => void; onOpenAwards: () => void; }> = ({ members, services, heldServices, year, positionFilter, onPositionFilterChange, onOpenAwards }) => {
+    const [serviceFilter, setServiceFilter] = useState<string>(ALL_FILTER);
+
+    const filteredMembers = useMemo(() => members.filter(member => matchesMemberFilters(member, { positionFilter, membershipFilter: ACTIVE_MEMBERS_FILTER })), [members, positionFilter]);
+    const serviceIds = useMemo(
+        () => new Set(serviceFilter === ALL_FILTER ? services.map(s => s.id) : [serviceFilter]),
+        [services, serviceFilter]
+    );
+    const current = useMemo(() => computeAttendanceStats(filteredMembers, heldServices, year, serviceIds), [filteredMembers, heldServices, year, serviceIds]);
+    const previous = useMemo(() => computeAttendanceStats(filteredMembers, heldServices, year - 1, serviceIds), [filteredMembers, heldServices, year, serviceIds]);
+
+    const weeksWithData = current.weekly.filter(w => w.present > 0).length;
+    const previousWeeksWithData = previous.weekly.filter(w => w.present > 0).length;
+    const weeklyAverage = weeksWithData > 0 ? current.totalPresent / weeksWithData : 0;
+    const previousWeeklyAverage = previousWeeksWithData > 0 ? previous.totalPresent / previousWeeksWithData : 0;
+    const rate = current.totalRecords > 0 ? (current.totalPresent / current.totalRecords) * 100 : 0;
+    const previousRate = previous.totalRecords > 0 ? (previous.totalPresent / previous.totalRecords) * 100 : 0;
+
+    const weeklyLabels = current.weekly.map(({ weekStart }, index) => {
+        const month = weekStart.split('-')[1];
+        return index === 0 || current.weekly[index - 1].weekStart.split('-')[1] !== month ? `${Number(month)}월` : '';
+    });
+    const previousPositionStats = new Map<Position, AttendanceStats['byPosition'][number]>(previous.byPosition.map(p => [p.position, p]));
+
+    return (
+        <section className="dashboard" aria-label="출석 통계">
+            <div className="dashboard-filters">
+                <select className="position-filter-select" value={positionFilter} onChange={e => onPositionFilterChange(e.target.value)} aria-label="직분으로 필터링">
+                    <option value={ALL_FILTER}>{ALL_FILTER} 직분</option>
+                    {POSITIONS.map(pos => <option key={pos} value={pos}>{pos}</option>)}
+                </select>
+                <select className="position-filter-select" value={serviceFilter} onChange={e => setServiceFilter(e.target.value)} aria-label="예배로 필터링">
+                    <option value={ALL_FILTER}>{ALL_FILTER} 예배</option>
+                    {services.map(service => <option key={service.id} value={service.id}>{service.name}</option>)}
+                </select>
+                <button className="btn" onClick={onOpenAwards}>개근·정근 시상 보고서</button>
+            </div>
+
+            <div className="stats-grid dashboard-summary">
+                <div><strong>연간 출석 (연인원)</strong><span>{current.totalPresent}명</span><small>전년 {previous.totalPresent}명 · {formatChange(current.totalPresent, previous.totalPresent)}</small></div>
+                <div><strong>주간 평균 출석</strong><span>{weeklyAverage.toFixed(1)}명</span><small>전년 {previousWeeklyAverage.toFixed(1)}명 · {formatChange(weeklyAverage, previousWeeklyAverage)}</small></div>
+                <div><strong>출석률</strong><span>{rate.toFixed(0)}%</span><small>전년 {previousRate.toFixed(0)}%</small></div>
+                <div><strong>대상 교인</strong><span>{filteredMembers.length}명</span><small>{positionFilter === ALL_FILTER ? '전체 직분' : positionFilter} · 이명·별세·휴면 제외</small></div>
+            </div>
+
+            <h3 className="dashboard-title">주간 출석 추이</h3>
+            <LineChart
+                title="주간 출석 추이"
+                xLabels={weeklyLabels}
+                series={[
+                    { label: `${year}년`, color: '#007bff', values: current.weekly.map(w => w.present) },
+                    { label: `${year - 1}년`, color: '#adb5bd', values: previous.weekly.map(w => w.present) },
+                ]}
+            />
+
+            <h3 className="dashboard-title">월별 평균 출석 (예배당)</h3>
+            <BarChart
+                title="월별 평균 출석"
+                categories={current.monthly.map(m => `${m.month}월`)}
+                format={value => value.toFixed(1)}
+                series={[
+                    { label: `${year}년`, color: '#28a745', values: current.monthly.map(m => m.average) },
+                    { label: `${year - 1}년`, color: '#adb5bd', values: previous.monthly.map(m => m.average) },
+                ]}
+            />
+
+            <h3 className="dashboard-title">직분별 출석률</h3>
+            <BarChart
+                title="직분별 출석률"
+                categories={current.byPosition.map(p => p.position)}
+                maxValue={100}
+                format={value => `${value.toFixed(0)}%`}
+                series={[
+                    { label: `${year}년`, color: '#ff9800', values: current.byPosition.map(p => (p.total > 0 ? (p.present / p.total) * 100 : 0)) },
+                    { label: `${year - 1}년`, color: '#adb5bd', values: current.byPosition.map(p => {
+                        const prev = previousPositionStats.get(p.position);
+                        return prev && prev.total > 0 ? (prev.present / prev.total) * 100 : 0;
+                    }) },
+                ]}
+            />
+            <div className="table-container">
+                <table className="member-table dashboard-table">
+                    <thead>
+                        <tr>
+                            <th>직분</th>
+                            <th>인원</th>
+                            <th>{year}년 출석</th>
+                            <th>{year}년 출석률</th>
+                            <th>{year - 1}년 출석률</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {current.byPosition.length > 0 ? current.byPosition.map(({ position, memberCount, present, total }) => {
+                            const prev = previousPositionStats.get(position);
+                            return (
+                                <tr key={position}>
+                                    <td>{position}</td>
+                                    <td>{memberCount}명</td>
+                                    <td>{present} / {total}</td>
+                                    <td>{total > 0 ? `${((present / total) * 100).toFixed(0)}%` : '-'}</td>
+                                    <td>{prev && prev.total > 0 ? `${((prev.present / prev.total) * 100).toFixed(0)}%` : '-'}</td>
+                                </tr>
+                            );
+                        }) : (
+                            <tr><td colSpan={5} className="no-members">해당 조건에 맞는 교인이 없습니다.</td></tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+        </section>
+    );
+};
+
+const FollowUpModal: FC<{ member: Member; onSave: (memberId: number, note: Omit<FollowUpNote, 'id'>) => void; onCancel: () => void; }> = ({ member, onSave, onCancel }) => {
+    const [date, setDate] = useState(getTodayString());
+    const [type, setType] = useState<FollowUpType>('심방');
+    const [note, setNote] = useState('');
+
+    useEffect(() => {
+        const handleEsc = (event: KeyboardEvent) => {
+           if (event.key === 'Escape') {
+              onCancel();
+           }
+        };
+        window.addEventListener('keydown', handleEsc);
+        return () => window.removeEventListener('keydown', handleEsc);
+    }, [onCancel]);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (date) {
+            onSave(member.id, { date, type, note: note.trim() });
+        }
+    };
+
+    return (
+        <div className="modal-overlay" onClick={onCancel} role="dialog" aria-modal="true" aria-labelledby="follow-up-modal-title">
+            <div className="modal-content" onClick={e => e.stopPropagation()}>
+                <header className="modal-header">
+                    <h2 id="follow-up-modal-title">{member.name} 심방 기록</h2>
+                    <button className="btn-close" onClick={onCancel} aria-label="닫기">&times;</button>
+                </header>
+                <form onSubmit={handleSubmit} className="modal-body">
+                    <div className="form-group">
+                        <label htmlFor="follow-up-date">날짜</label>
+                        <input type="date" id="follow-up-date" value={date} onChange={e => setDate(e.target.value)} required />
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="follow-up-type">구분</label>
+                        <select id="follow-up-type" value={type} onChange={e => setType(e.target.value as FollowUpType)}>
+                            {FOLLOW_UP_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+                        </select>
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="follow-up-note">내용</label>
+                        <textarea id="follow-up-note" value={note} onChange={e => setNote(e.target.value)} rows={4} placeholder="예: 병원 입원 중, 다음 주 재방문 예정" />
+                    </div>
+                    <footer className="modal-footer">
+                        <button type="button" className="btn" onClick={onCancel}>취소</button>
+                        <button type="submit" className="btn btn-primary">저장</button>
+                    </footer>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+const AbsenteeList: FC<{
+    absentees: AbsenteeInfo[];
+    threshold: number;
+    onThresholdChange: (threshold: number) => void;
+    selectedMemberIds: Set<number>;
+    onSelectionChange: (id: number) => void;
+    onSelectMembers: (ids: number[]) => void;
+    onSendSms: () => void;
+    onAddFollowUp: (member: Member) => void;
+    onViewMember: (member: Member) => void;
+}> = ({ absentees, threshold, onThresholdChange, selectedMemberIds, onSelectionChange, onSelectMembers, onSendSms, onAddFollowUp, onViewMember }) => {
+    const allSelected = absentees.length > 0 && absentees.every(({ member }) => selectedMemberIds.has(member.id));
+    const contactedCount = absentees.filter(({ absentSince, lastFollowUp }) => lastFollowUp && absentSince && lastFollowUp.date >= absentSince).length;
+
+    return (
+        <section className="absentee-section" aria-label="장기 결석자">
+            <div className="absentee-controls">
+                <label className="absentee-threshold">
+                    연속
+                    <input
+                        type="number"
+                        min={1}
+                        max={52}
+                        value={threshold}
+                        onChange={e => onThresholdChange(Math.max(1, Number(e.target.value) || 1))}
+                        aria-label="연속 결석 주수 기준"
+                    />
+                    주 이상 주일 결석(미체크 포함)
+                </label>
+                <span className="selection-info">총 {absentees.length}명 · 연락 완료 {contactedCount}명 · {selectedMemberIds.size}명 선택됨</span>
+                <div className="actions-bar">
+                    <button className="btn" onClick={() => onSelectMembers(absentees.map(({ member }) => member.id))} disabled={absentees.length === 0 || allSelected}>
+                        목록 전체 선택
+                    </button>
+                    <button className="btn btn-sms" onClick={onSendSms} disabled={selectedMemberIds.size === 0}>
+                        단체 문자
+                    </button>
+                </div>
+            </div>
+            <div className="table-container">
+                <table className="member-table">
+                    <thead>
+                        <tr>
+                            <th className="col-checkbox"></th>
+                            <th className="col-tight">이름</th>
+                            <th className="col-tight">직분</th>
+                            <th className="col-tight">연속 결석</th>
+                            <th>마지막 출석</th>
+                            <th>최근 심방</th>
+                            <th>기록</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {absentees.length > 0 ? absentees.map(({ member, consecutiveAbsences, absentSince, lastAttended, lastFollowUp }) => {
+                            const contacted = lastFollowUp && absentSince && lastFollowUp.date >= absentSince;
+                            return (
+                                <tr key={member.id} className={contacted ? 'absentee-contacted' : ''}>
+                                    <td className="col-checkbox"><input type="checkbox" checked={selectedMemberIds.has(member.id)} onChange={() => onSelectionChange(member.id)} aria-label={`${member.name} 선택`} /></td>
+                                    <td className="member-name-link col-tight" onClick={() => onViewMember(member)}>{member.name}</td>
+                                    <td className="col-tight">{member.position}</td>
+                                    <td className="col-tight">{consecutiveAbsences}주</td>
+                                    <td>{lastAttended || '기록 없음'}</td>
+                                    <td className="follow-up-cell">
+                                        {lastFollowUp ? (
+                                            <span title={lastFollowUp.note}>
+                                                {contacted && <span className="follow-up-badge">연락함</span>} {lastFollowUp.date} {lastFollowUp.type}
+                                            </span>
+                                        ) : '-'}
+                                    </td>
+                                    <td><button className="btn btn-edit" onClick={() => onAddFollowUp(member)}>기록 추가</button></td>
+                                </tr>
+                            );
+                        }) : (
+                            <tr>
+                                <td colSpan={7} className="no-members">{threshold}주 이상 연속 결석한 교인이 없습니다.</td>
+                            </tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+        </section>
+    );
+};
+
+interface GroupSummary {
+  key: string;
+  label: string;
+  total: number;
+  present: number; // every status that counts as attended (출석, 지각, 온라인 예배)
+  absent: number;
+  excused: number;
+  rate: AttendanceTally; // over members the held service counts for, so unmarked ones are absent and a cancelled day has none
+}
+
+const summarizeAttendance = (key: string, label: string, members: Member[], heldServices: HeldServices, date: string, serviceId: string): GroupSummary => {
+    const outcomes = members.map(m => {
+        const status = getEffectiveStatus(m, date, serviceId);
+        return status && ATTENDANCE_OUTCOMES[status];
+    });
+    return {
+        key,
+        label,
+        total: members.length,
+        present: outcomes.filter(outcome => outcome === 'present').length,
+        absent: outcomes.filter(outcome => outcome === 'absent').length,
+        excused: outcomes.filter(outcome => outcome === 'excused').length,
+        rate: tallyRecords(members.flatMap(m => getHeldServiceRecords(m, heldServices, date, date).filter(record => record.serviceId === serviceId))),
+    };
+};
+
+const countUnmarked = (summary: GroupSummary) => summary.total - summary.present - summary.absent - summary.excused;
+
+const formatSummaryRate = (summary: GroupSummary) => formatRate(summary.rate);
+
+const GroupSummaryRow: FC<{ summary: GroupSummary; className?: string; children?: React.ReactNode }> = ({ summary, className, children }) => (
+    <tr className={className}>
+        <td>{summary.label}</td>
+        <td>{summary.total}명</td>
+        <td>{summary.present}</td>
+        <td>{summary.absent}</td>
+        <td>{summary.excused}</td>
+        <td>{countUnmarked(summary)}</td>
+        <td>{formatSummaryRate(summary)}</td>
+        <td>{children}</td>
+    </tr>
+);
+
+const OTHER_ATTENDANCE_STATUSES = ATTENDANCE_STATUSES.filter(status => status !== '출석' && status !== '결석');
+
+// 출석 and 결석 get their own buttons and the other statuses a menu; choosing the current status again clears it.
+// `status` is the effective one, so a day covered by a date-range excuse shows the excuse.
+const AttendanceButtons: FC<{ member: Member; date: string; status: AttendanceStatus | undefined; onChange: (status: AttendanceStatus | '미정') => void; }> = ({ member, date, status, onChange }) => {
+    const excuse = findExcuse(member, date);
+    const otherStatus = status && status !== '출석' && status !== '결석' ? status : '';
+    return (
+        <div className="attendance-buttons">
+            {(['출석', '결석'] as const).map(s => (
                 <button
-                    key={number}
-                    onClick={() => onPageChange(number)}
-                    className={`pagination-button ${currentPage === number ? 'active' : ''}`}
-                    aria-current={currentPage === number ? 'page' : undefined}
+                    key={s}
+                    className={`btn-attendance ${s === '출석' ? 'btn-present' : 'btn-absent'} ${status === s ? 'active' : ''}`}
+                    onClick={() => onChange(status === s ? '미정' : s)}
                 >
-                    {number}
+                    {s}
                 </button>
             ))}
-            <button onClick={handleNext} disabled={currentPage === totalPages} className="pagination-button">
-                다음
-            </button>
-        </nav>
+            <select
+                className={`attendance-other-select ${otherStatus ? `active ${getStatusClassName(otherStatus)}` : ''}`}
+                value={otherStatus}
+                onChange={e => onChange((e.target.value || '미정') as AttendanceStatus | '미정')}
+                title={excuse ? `기간 사유: ${excuse.status} ${excuse.from} ~ ${excuse.to}${excuse.note ? ` (${excuse.note})` : ''}` : undefined}
+                aria-label={`${member.name} 기타 출결`}
+            >
+                <option value="">기타</option>
+                {OTHER_ATTENDANCE_STATUSES.map(s => <option key={s} value={s}>{s} ({OUTCOME_LABELS[ATTENDANCE_OUTCOMES[s]]})</option>)}
+            </select>
+        </div>
     );
 };
 
+// Summaries per group, a subtotal per kind and the church-wide total. Members who belong to several groups
+// are counted once in each subtotal and in the total, so the totals are not plain sums of the rows above.
+const GroupAttendanceView: FC<{
+    members: Member[];
+    groups: MemberGroup[];
+    heldServices: HeldServices;
+    date: string;
+    service: ServiceType;
+    onAttendanceChange: (id: number, date: string, serviceId: string, status: AttendanceStatus | '미정') => void;
+    onViewMember: (member: Member) => void;
+    onOpenSettings: () => void;
+}> = ({ members, groups, heldServices, date, service, onAttendanceChange, onViewMember, onOpenSettings }) => {
+    const [leaderGroupId, setLeaderGroupId] = useState<string | null>(null);
+    const leaderGroup = groups.find(g => g.id === leaderGroupId) || null;
 
-const validateImportedData = (data: any): { isValid: boolean; error: string | null; validatedMembers: Member[] | null } => {
-    if (typeof data === 'undefined' || data === null) {
-        return { isValid: false, error: '파일에 데이터가 없습니다.', validatedMembers: null };
+    const activeMembers = useMemo(() => members.filter(isActiveMember), [members]);
+    const membersOf = useCallback((groupIds: string[]) => activeMembers.filter(m => m.groupIds?.some(id => groupIds.includes(id))), [activeMembers]);
+
+    const sections = useMemo(() => GROUP_KINDS.map(kind => {
+        const ofKind = groups.filter(g => g.kind === kind);
+        return {
+            kind,
+            rows: ofKind.map(g => ({ group: g, summary: summarizeAttendance(g.id, g.name, membersOf([g.id]), heldServices, date, service.id) })),
+            subtotal: summarizeAttendance(kind, `${kind} 합계`, membersOf(ofKind.map(g => g.id)), heldServices, date, service.id),
+        };
+    }).filter(section => section.rows.length > 0), [groups, membersOf, heldServices, date, service.id]);
+
+    const unassigned = summarizeAttendance('none', '소속 없음', activeMembers.filter(m => !m.groupIds?.length), heldServices, date, service.id);
+    const churchTotal = summarizeAttendance('all', '교회 전체', activeMembers, heldServices, date, service.id);
+
+    if (groups.length === 0) {
+        return (
+            <section className="group-section" aria-label="소그룹 출석">
+                <p className="no-members">등록된 구역/셀/부서가 없습니다.</p>
+                <button className="btn btn-primary" onClick={onOpenSettings}>소그룹 설정</button>
+            </section>
+        );
     }
-    if (!Array.isArray(data)) {
-        return { isValid: false, error: '데이터 파일의 최상위 구조는 배열(Array)이어야 합니다.', validatedMembers: null };
+
+    if (leaderGroup) {
+        const groupMembers = membersOf([leaderGroup.id]);
+        const leader = members.find(m => m.id === leaderGroup.leaderId);
+        const summary = summarizeAttendance(leaderGroup.id, leaderGroup.name, groupMembers, heldServices, date, service.id);
+        return (
+            <section className="group-section" aria-label={`${leaderGroup.name} 리더 보기`}>
+                <div className="group-leader-header">
+                    <button className="btn" onClick={() => setLeaderGroupId(null)}>&lt; 전체 요약</button>
+                    <h3>{leaderGroup.name} <span className="group-kind-badge">{leaderGroup.kind}</span></h3>
+                    <span className="selection-info">리더: {leader ? leader.name : '미지정'} · {date} {service.name} · 출석 {summary.present} / {summary.total}명</span>
+                </div>
+                <div className="table-container">
+                    <table className="member-table">
+                        <thead>
+                            <tr>
+                                <th className="col-tight">이름</th>
+                                <th className="col-tight">직분</th>
+                                <th className="col-tight">출결</th>
+                                <th>전화번호</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {groupMembers.length > 0 ? groupMembers.map(member => {
+                                const status = getEffectiveStatus(member, date, service.id);
+                                return (
+                                    <tr key={member.id}>
+                                        <td className="member-name-link col-tight" onClick={() => onViewMember(member)}>
+                                            {member.name}
+                                            {member.id === leaderGroup.leaderId && <span className="household-tag">리더</span>}
+                                        </td>
+                                        <td className="col-tight">{member.position}</td>
+                                        <td className="attendance-cell col-tight">
+                                            <AttendanceButtons member={member} date={date} status={status} onChange={next => onAttendanceChange(member.id, date, service.id, next)} />
+                                        </td>
+                                        <td>{member.phone}</td>
+                                    </tr>
+                                );
+                            }) : (
+                                <tr><td colSpan={4} className="no-members">이 소그룹에 소속된 교인이 없습니다.</td></tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </section>
+        );
     }
 
-    const validatedMembers: Member[] = [];
-    for (let i = 0; i < data.length; i++) {
-        const member = data[i];
-        if (typeof member !== 'object' || member === null) {
-            return { isValid: false, error: `${i + 1}번째 항목이 올바른 객체(Object)가 아닙니다.`, validatedMembers: null };
+    return (
+        <section className="group-section" aria-label="소그룹 출석 요약">
+            <div className="group-leader-header">
+                <span className="selection-info">{date} {service.name} 기준</span>
+                <button className="btn service-settings-button" onClick={onOpenSettings}>⚙ 소그룹 설정</button>
+            </div>
+            <div className="table-container">
+                <table className="member-table dashboard-table">
+                    <thead>
+                        <tr>
+                            <th>소그룹</th>
+                            <th>인원</th>
+                            <th>출석</th>
+                            <th>결석</th>
+                            <th>사유</th>
+                            <th>미체크</th>
+                            <th>출석률</th>
+                            <th>리더 보기</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {sections.map(section => (
+                            <React.Fragment key={section.kind}>
+                                {section.rows.map(({ group, summary }) => (
+                                    <GroupSummaryRow key={group.id} summary={summary}>
+                                        <button className="btn btn-edit" onClick={() => setLeaderGroupId(group.id)}>
+                                            {members.find(m => m.id === group.leaderId)?.name || '열기'}
+                                        </button>
+                                    </GroupSummaryRow>
+                                ))}
+                                <GroupSummaryRow summary={section.subtotal} className="group-subtotal-row" />
+                            </React.Fragment>
+                        ))}
+                        <GroupSummaryRow summary={unassigned} className="group-subtotal-row" />
+                        <GroupSummaryRow summary={churchTotal} className="group-total-row" />
+                    </tbody>
+                </table>
+            </div>
+        </section>
+    );
+};
+
+const CHOSEONG = ['ㄱ', 'ㄲ', 'ㄴ', 'ㄷ', 'ㄸ', 'ㄹ', 'ㅁ', 'ㅂ', 'ㅃ', 'ㅅ', 'ㅆ', 'ㅇ', 'ㅈ', 'ㅉ', 'ㅊ', 'ㅋ', 'ㅌ', 'ㅍ', 'ㅎ'];
+const HANGUL_BASE = 0xAC00;
+const HANGUL_SYLLABLE_COUNT = 11172;
+
+// A query character matches a name character when it is the same syllable, its initial consonant (ㄱㅁㅅ → 김민수),
+// or the same syllable still being composed without its final consonant (미 → 민).
+const matchesHangulChar = (queryChar: string, textChar: string) => {
+    if (queryChar === textChar) return true;
+    const textCode = textChar.charCodeAt(0) - HANGUL_BASE;
+    if (textCode < 0 || textCode >= HANGUL_SYLLABLE_COUNT) return false;
+    if (CHOSEONG.includes(queryChar)) return CHOSEONG[Math.floor(textCode / 588)] === queryChar;
+    const queryCode = queryChar.charCodeAt(0) - HANGUL_BASE;
+    return queryCode >= 0 && queryCode < HANGUL_SYLLABLE_COUNT && queryCode % 28 === 0 && textCode - queryCode >= 0 && textCode - queryCode < 28;
+};
+
+const matchesHangulQuery = (text: string, query: string) => {
+    const textChars = Array.from(text.replace(/\s/g, '').toLowerCase());
+    const queryChars = Array.from(query.replace(/\s/g, '').toLowerCase());
+    for (let start = 0; start + queryChars.length <= textChars.length; start++) {
+        if (queryChars.every((q, i) => matchesHangulChar(q, textChars[start + i]))) return true;
+    }
+    return false;
+};
+
+// Digits search the phone number (e.g. the last four digits); anything else searches the name.
+const matchesMemberSearch = (member: Member, query: string) => {
+    const trimmed = query.trim();
+    if (!trimmed) return true;
+    if (/^[\d\s+-]+$/.test(trimmed)) return normalizePhoneDigits(member.phone).includes(trimmed.replace(/\D/g, ''));
+    return matchesHangulQuery(member.name, trimmed);
+};
+
+const CHECK_IN_RESULT_LIMIT = 20;
+
+const CheckInView: FC<{
+    members: Member[];
+    heldServices: HeldServices;
+    date: string;
+    service: ServiceType;
+    visitorCount: number;
+    onAttendanceChange: (id: number, date: string, serviceId: string, status: AttendanceStatus | '미정') => void;
+    onViewMember: (member: Member) => void;
+}> = ({ members, heldServices, date, service, visitorCount, onAttendanceChange, onViewMember }) => {
+    const [query, setQuery] = useState('');
+    const [highlighted, setHighlighted] = useState(0);
+    const [recent, setRecent] = useState<{ memberId: number; name: string; status: AttendanceStatus | '미정' }[]>([]);
+    const searchRef = useRef<HTMLInputElement>(null);
+
+    const activeMembers = useMemo(() => members.filter(isActiveMember), [members]);
+    const summary = summarizeAttendance('all', '전체', activeMembers, heldServices, date, service.id);
+    const results = useMemo(() => (query.trim() ? activeMembers.filter(m => matchesMemberSearch(m, query)) : []), [activeMembers, query]);
+    const visibleResults = results.slice(0, CHECK_IN_RESULT_LIMIT);
+
+    useEffect(() => {
+        searchRef.current?.focus();
+    }, [date, service.id]);
+
+    const mark = (member: Member, status: AttendanceStatus | '미정') => {
+        onAttendanceChange(member.id, date, service.id, status);
+        setRecent(prev => [{ memberId: member.id, name: member.name, status }, ...prev].slice(0, 8));
+        setQuery('');
+        setHighlighted(0);
+        searchRef.current?.focus();
+    };
+
+    // Enter marks 출석, Shift+Enter 결석 and Ctrl/⌘+Enter clears the record; the arrow keys move the highlight.
+    const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+        if (event.nativeEvent.isComposing) return;
+        if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+            event.preventDefault();
+            if (visibleResults.length === 0) return;
+            const step = event.key === 'ArrowDown' ? 1 : -1;
+            setHighlighted(prev => (prev + step + visibleResults.length) % visibleResults.length);
+        } else if (event.key === 'Enter') {
+            event.preventDefault();
+            const member = visibleResults[highlighted];
+            if (!member) return;
+            mark(member, event.ctrlKey || event.metaKey ? '미정' : event.shiftKey ? '결석' : '출석');
+        } else if (event.key === 'Escape' && query) {
+            event.stopPropagation();
+            setQuery('');
+            setHighlighted(0);
         }
-        
-        if (typeof member.id !== 'number') return { isValid: false, error: `${i + 1}번째 항목에 숫자 타입의 'id'가 없습니다.`, validatedMembers: null };
-        if (typeof member.name !== 'string') return { isValid: false, error: `${i + 1}번째 항목에 문자열 타입의 'name'이 없습니다.`, validatedMembers: null };
-        if (typeof member.position !== 'string' || !POSITIONS.includes(member.position as any)) return { isValid: false, error: `${i + 1}번째 항목의 'position' 값이 유효하지 않습니다: ${member.position}`, validatedMembers: null };
-        if (typeof member.phone !== 'string') return { isValid: false, error: `${i + 1}번째 항목에 문자열 타입의 'phone'이 없습니다.`, validatedMembers: null };
-        if (typeof member.attendance !== 'object' || member.attendance === null) return { isValid: false, error: `${i + 1}번째 항목에 객체 타입의 'attendance'가 없습니다.`, validatedMembers: null };
-        
-        for (const date in member.attendance) {
-            if (Object.prototype.hasOwnProperty.call(member.attendance, date)) {
-                if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !ATTENDANCE_STATUSES.includes(member.attendance[date])) {
-                     return { isValid: false, error: `${member.name}님의 '${date}' 날짜의 출석 데이터('${member.attendance[date]}')가 올바르지 않습니다.`, validatedMembers: null };
-                }
-            }
+    };
+
+    if (!date) {
+        return <p className="no-members">달력에서 체크인할 날짜를 선택해주세요.</p>;
+    }
+
+    return (
+        <section className="check-in-section" aria-label="출석 체크인">
+            <div className="check-in-counts" aria-live="polite">
+                <div><strong>출석</strong><span className="stat-present">{summary.present}</span></div>
+                <div><strong>결석</strong><span className="stat-absent">{summary.absent}</span></div>
+                <div><strong>사유</strong><span className="stat-excused">{summary.excused}</span></div>
+                <div><strong>미체크</strong><span>{countUnmarked(summary)}</span></div>
+                <div><strong>출석률</strong><span>{formatSummaryRate(summary)}</span></div>
+                <div><strong>방문자</strong><span className="stat-visitor">{visitorCount}</span></div>
+            </div>
+            <p className="selection-info">{date} {service.name} · 활동 교인 {summary.total}명 · 방문자는 <a href="#/visitors">새가족</a> 탭에서 기록합니다.</p>
+            <input
+                ref={searchRef}
+                type="search"
+                className="check-in-search"
+                value={query}
+                onChange={e => { setQuery(e.target.value); setHighlighted(0); }}
+                onKeyDown={handleKeyDown}
+                placeholder="이름, 초성(ㄱㅁㅅ) 또는 전화번호 뒷자리"
+                aria-label="교인 검색"
+                aria-controls="check-in-results"
+                autoComplete="off"
+            />
+            <p className="form-hint">Enter 출석 · Shift+Enter 결석 · Ctrl+Enter 기록 지우기 · ↑↓ 선택 이동 · Esc 검색어 지우기</p>
+            {query.trim() && (
+                <ul id="check-in-results" className="check-in-results" role="listbox" aria-label="검색 결과">
+                    {visibleResults.length === 0 && <li className="no-members">검색 결과가 없습니다.</li>}
+                    {visibleResults.map((member, i) => {
+                        const status = getEffectiveStatus(member, date, service.id);
+                        return (
+                            <li
+                                key={member.id}
+                                role="option"
+                                aria-selected={i === highlighted}
+                                className={i === highlighted ? 'highlighted' : ''}
+                                onMouseEnter={() => setHighlighted(i)}
+                            >
+                                <span className="member-name-link" onClick={() => onViewMember(member)}>{member.name}</span>
+                                <span className="check-in-meta">{member.position} · {member.phone || '전화번호 없음'}</span>
+                                <span className={`check-in-status ${getStatusClassName(status)}`}>{status || '미체크'}</span>
+                                <AttendanceButtons member={member} date={date} status={status} onChange={next => mark(member, next)} />
+                            </li>
+                        );
+                    })}
+                    {results.length > visibleResults.length && <li className="form-hint">외 {results.length - visibleResults.length}명 · 검색어를 더 입력해주세요.</li>}
+                </ul>
+            )}
+            {recent.length > 0 && (
+                <div className="check-in-recent">
+                    <h4>방금 체크한 교인</h4>
+                    <ul>
+                        {recent.map((entry, i) => <li key={i}>{entry.name} · {entry.status === '미정' ? '기록 지움' : entry.status}</li>)}
+                    </ul>
+                </div>
+            )}
+        </section>
+    );
+};
+
+const hasVisited = (visitor: Visitor, date: string, serviceId: string) =>
+    visitor.visits.some(visit => visit.date === date && visit.serviceId === serviceId);
+
+// A registered visitor's visits live on as member attendance, so visitors a member was registered from are left
+// out of visitor counts. The link lives on the member, so undoing the registration makes the visitor pending again.
+const findRegisteredVisitorIds = (members: Member[]) =>
+    new Set(members.flatMap(m => (m.visitorId !== undefined ? [m.visitorId] : [])));
+
+const isPendingVisitor = (visitor: Visitor, registeredVisitorIds: Set<number>) => !registeredVisitorIds.has(visitor.id);
+
+// Visitor ids stay unique across registered visitors too, so a new visitor never takes over a member's link.
+const nextVisitorId = (visitors: Visitor[], members: Member[]) =>
+    Math.max(0, ...visitors.map(v => v.id), ...findRegisteredVisitorIds(members)) + 1;
+
+// Checking a week records today as its completion date; unchecking removes it.
+const toggleEducationStep = (education: NewFamilyEducation | undefined, step: NewFamilyStep, done: boolean): NewFamilyEducation | undefined => {
+    const next = { ...(education || {}) };
+    if (done) {
+        next[step] = getTodayString();
+    } else {
+        delete next[step];
+    }
+    return Object.keys(next).length > 0 ? next : undefined;
+};
+
+const countEducationSteps = (education: NewFamilyEducation | undefined) =>
+    NEW_FAMILY_STEPS.filter(step => education?.[step]).length;
+
+const EducationCheckboxes: FC<{ name: string; education: NewFamilyEducation | undefined; onChange: (step: NewFamilyStep, done: boolean) => void; }> = ({ name, education, onChange }) => (
+    <>
+        {NEW_FAMILY_STEPS.map(step => (
+            <td key={step} className="education-cell">
+                <input
+                    type="checkbox"
+                    checked={Boolean(education?.[step])}
+                    onChange={e => onChange(step, e.target.checked)}
+                    title={education?.[step] ? `${education[step]} 수료` : '미수료'}
+                    aria-label={`${name} 새가족 교육 ${step}`}
+                />
+            </td>
+        ))}
+    </>
+);
+
+const VisitorsView: FC<{
+    visitors: Visitor[];
+    members: Member[];
+    services: ServiceType[];
+    heldServices: HeldServices;
+    date: string;
+    service: ServiceType;
+    onAddVisitor: (visitor: Omit<Visitor, 'id'>) => void;
+    onUpdateVisitor: (visitor: Visitor) => void;
+    onDeleteVisitor: (visitor: Visitor) => void;
+    onPromoteVisitor: (visitor: Visitor) => void;
+    onMemberEducationChange: (memberId: number, step: NewFamilyStep, done: boolean) => void;
+    onViewMember: (member: Member) => void;
+}> = ({ visitors, members, services, heldServices, date, service, onAddVisitor, onUpdateVisitor, onDeleteVisitor, onPromoteVisitor, onMemberEducationChange, onViewMember }) => {
+    const [name, setName] = useState('');
+    const [phone, setPhone] = useState('');
+    const [inviter, setInviter] = useState('');
+    const [source, setSource] = useState<VisitSource | ''>('');
+    const [notes, setNotes] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    const registeredVisitorIds = useMemo(() => findRegisteredVisitorIds(members), [members]);
+    const pendingVisitors = useMemo(
+        () => visitors
+            .filter(v => isPendingVisitor(v, registeredVisitorIds))
+            .sort((a, b) => (b.visits.map(v => v.date).sort().pop() || '').localeCompare(a.visits.map(v => v.date).sort().pop() || '') || a.name.localeCompare(b.name, 'ko')),
+        [visitors, registeredVisitorIds]
+    );
+    const dayVisitors = pendingVisitors.filter(v => hasVisited(v, date, service.id));
+    const firstTimeCount = dayVisitors.filter(v => v.visits.every(visit => visit.date >= date)).length;
+    const newFamilyMembers = useMemo(() => members.filter(m => getMembershipStatus(m) === '새가족'), [members]);
+    const activeMembers = useMemo(() => members.filter(isActiveMember), [members]);
+    const memberSummary = summarizeAttendance('all', '전체', activeMembers, heldServices, date, service.id);
+    const duplicates = name.trim() ? findDuplicateMembers({ name, phone }, members) : [];
+    const serviceName = (serviceId: string) => services.find(s => s.id === serviceId)?.name || serviceId;
+
+    const resetForm = () => {
+        setName('');
+        setPhone('');
+        setInviter('');
+        setSource('');
+        setNotes('');
+        setError(null);
+    };
+
+    const addVisit = (visitor: Visitor) => {
+        onUpdateVisitor({ ...visitor, visits: [...visitor.visits, { date, serviceId: service.id }] });
+    };
+
+    // A returning visitor with the same name and number gets another visit instead of a second record.
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const trimmedName = name.trim();
+        if (!trimmedName) {
+            setError('이름을 입력해주세요.');
+            return;
+        }
+        const phoneError = getPhoneError(phone);
+        if (phoneError) {
+            setError(phoneError);
+            return;
+        }
+        const formattedPhone = formatPhoneNumber(phone) ?? '';
+        const existing = pendingVisitors.find(v => v.name === trimmedName && normalizePhoneDigits(v.phone) === normalizePhoneDigits(formattedPhone));
+        if (existing) {
+            if (hasVisited(existing, date, service.id)) {
+                setError(`${trimmedName}님은 이미 ${date} ${service.name} 방문자로 기록되어 있습니다.`);
+                return;
+            }
+            addVisit(existing);
+        } else {
+            onAddVisitor({
+                name: trimmedName,
+                phone: formattedPhone,
+                ...(inviter.trim() ? { inviter: inviter.trim() } : {}),
+                ...(source ? { source } : {}),
+                ...(notes.trim() ? { notes: notes.trim() } : {}),
+                visits: [{ date, serviceId: service.id }],
+            });
+        }
+        resetForm();
+    };
+
+    if (!date) {
+        return <p className="no-members">달력에서 방문 날짜를 선택해주세요.</p>;
+    }
+
+    return (
+        <section className="visitor-section" aria-label="방문자·새가족">
+            <div className="check-in-counts" aria-live="polite">
+                <div><strong>교인 출석</strong><span className="stat-present">{memberSummary.present}</span></div>
+                <div><strong>방문자</strong><span className="stat-visitor">{dayVisitors.length}</span></div>
+                <div><strong>첫 방문</strong><span>{firstTimeCount}</span></div>
+                <div><strong>재방문</strong><span>{dayVisitors.length - firstTimeCount}</span></div>
+            </div>
+            <p className="selection-info">{date} {service.name} · 방문자는 교인 출석률에 포함되지 않습니다.</p>
+
+            <form className="visitor-form" onSubmit={handleSubmit}>
+                <h3>방문자 기록</h3>
+                <div className="visitor-form-fields">
+                    <div className="form-group">
+                        <label htmlFor="visitor-name">이름</label>
+                        <input id="visitor-name" type="text" value={name} onChange={e => { setName(e.target.value); setError(null); }} />
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="visitor-phone">연락처</label>
+                        <input
+                            id="visitor-phone"
+                            type="tel"
+                            value={phone}
+                            onChange={e => { setPhone(e.target.value); setError(null); }}
+                            onBlur={() => setPhone(prev => formatPhoneNumber(prev) ?? prev)}
+                            placeholder="010-1234-5678"
+                        />
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="visitor-inviter">인도자</label>
+                        <input id="visitor-inviter" type="text" list="visitor-inviter-options" value={inviter} onChange={e => setInviter(e.target.value)} placeholder="교인 이름 또는 직접 입력" />
+                        <datalist id="visitor-inviter-options">
+                            {activeMembers.map(m => <option key={m.id} value={m.name}>{m.position}</option>)}
+                        </datalist>
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="visitor-source">방문 경로</label>
+                        <select id="visitor-source" value={source} onChange={e => setSource(e.target.value as VisitSource | '')}>
+                            <option value="">선택 안 함</option>
+                            {VISIT_SOURCES.map(s => <option key={s} value={s}>{s}</option>)}
+                        </select>
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="visitor-notes">메모</label>
+                        <input id="visitor-notes" type="text" value={notes} onChange={e => setNotes(e.target.value)} />
+                    </div>
+                </div>
+                {error && <p className="form-error" role="alert">{error}</p>}
+                <DuplicateWarning candidates={duplicates} />
+                <button type="submit" className="btn btn-primary">{date} 방문 기록</button>
+            </form>
+
+            <h3>{date} {service.name} 방문자 ({dayVisitors.length}명)</h3>
+            <div className="table-container">
+                <table className="member-table">
+                    <thead>
+                        <tr>
+                            <th className="col-tight">이름</th>
+                            <th>연락처</th>
+                            <th className="col-tight">인도자</th>
+                            <th className="col-tight">방문 경로</th>
+                            <th className="col-tight">방문</th>
+                            <th className="col-tight">작업</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {dayVisitors.length > 0 ? dayVisitors.map(visitor => (
+                            <tr key={visitor.id}>
+                                <td className="col-tight">{visitor.name}</td>
+                                <td>{visitor.phone || '-'}</td>
+                                <td className="col-tight">{visitor.inviter || '-'}</td>
+                                <td className="col-tight">{visitor.source || '-'}</td>
+                                <td className="col-tight">{visitor.visits.filter(v => v.date <= date).length}번째</td>
+                                <td className="col-tight">
+                                    <button className="btn btn-delete" onClick={() => onUpdateVisitor({ ...visitor, visits: visitor.visits.filter(v => v.date !== date || v.serviceId !== service.id) })}>방문 취소</button>
+                                </td>
+                            </tr>
+                        )) : (
+                            <tr><td colSpan={6} className="no-members">이 예배에 기록된 방문자가 없습니다.</td></tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+
+            <h3>방문자 명단 ({pendingVisitors.length}명)</h3>
+            <p className="form-hint">새가족 교육은 등록 전에 시작해도 되며, 교인으로 등록하면 방문 기록은 출석 기록으로, 교육 기록은 그대로 옮겨집니다.</p>
+            <div className="table-container">
+                <table className="member-table visitor-table">
+                    <thead>
+                        <tr>
+                            <th className="col-tight">이름</th>
+                            <th>연락처 · 인도자 · 경로</th>
+                            <th className="col-tight">방문 기록</th>
+                            {NEW_FAMILY_STEPS.map(step => <th key={step} className="col-tight">{step}</th>)}
+                            <th className="col-tight">작업</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {pendingVisitors.length > 0 ? pendingVisitors.map(visitor => {
+                            const visits = [...visitor.visits].sort((a, b) => a.date.localeCompare(b.date));
+                            return (
+                                <tr key={visitor.id}>
+                                    <td className="col-tight">{visitor.name}</td>
+                                    <td>
+                                        {[visitor.phone, visitor.inviter && `인도: ${visitor.inviter}`, visitor.source].filter(Boolean).join(' · ') || '-'}
+                                        {visitor.notes && <div className="form-hint">{visitor.notes}</div>}
+                                    </td>
+                                    <td className="col-tight" title={visits.map(v => `${v.date} ${serviceName(v.serviceId)}`).join('\n')}>
+                                        {visits.length}회{visits.length > 0 && ` · 최근 ${visits[visits.length - 1].date}`}
+                                    </td>
+                                    <EducationCheckboxes
+                                        name={visitor.name}
+                                        education={visitor.education}
+                                        onChange={(step, done) => onUpdateVisitor({ ...visitor, education: toggleEducationStep(visitor.education, step, done) })}
+                                    />
+                                    <td className="col-tight">
+                                        <div className="visitor-actions">
+                                            {!hasVisited(visitor, date, service.id) && <button className="btn" onClick={() => addVisit(visitor)}>{date} 방문</button>}
+                                            <button className="btn btn-save" onClick={() => onPromoteVisitor(visitor)}>교인 등록</button>
+                                            <button className="btn btn-delete" onClick={() => onDeleteVisitor(visitor)}>삭제</button>
+                                        </div>
+                                    </td>
+                                </tr>
+                            );
+                        }) : (
+                            <tr><td colSpan={4 + NEW_FAMILY_STEPS.length} className="no-members">등록 대기 중인 방문자가 없습니다.</td></tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+
+            <h3>새가족 교육 현황 ({newFamilyMembers.length}명)</h3>
+            <div className="table-container">
+                <table className="member-table visitor-table">
+                    <thead>
+                        <tr>
+                            <th className="col-tight">이름</th>
+                            <th>등록일</th>
+                            {NEW_FAMILY_STEPS.map(step => <th key={step} className="col-tight">{step}</th>)}
+                            <th className="col-tight">진행</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {newFamilyMembers.length > 0 ? newFamilyMembers.map(member => {
+                            const completed = countEducationSteps(member.newFamilyEducation);
+                            return (
+                                <tr key={member.id}>
+                                    <td className="member-name-link col-tight" onClick={() => onViewMember(member)}>{member.name}</td>
+                                    <td>{member.registeredDate || '-'}</td>
+                                    <EducationCheckboxes name={member.name} education={member.newFamilyEducation} onChange={(step, done) => onMemberEducationChange(member.id, step, done)} />
+                                    <td className={`col-tight ${completed === NEW_FAMILY_STEPS.length ? 'stat-present' : ''}`}>
+                                        {completed === NEW_FAMILY_STEPS.length ? '수료' : `${completed}/${NEW_FAMILY_STEPS.length}`}
+                                    </td>
+                                </tr>
+                            );
+                        }) : (
+                            <tr><td colSpan={3 + NEW_FAMILY_STEPS.length} className="no-members">교적 상태가 '새가족'인 교인이 없습니다.</td></tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+        </section>
+    );
+};
+
+// iOS expects '&body=' after the recipients while Android and desktop apps expect '?body='.
+const buildSmsUrl = (phoneNumbers: string[], body: string) => {
+    const separator = /iPhone|iPad|iPod/.test(navigator.userAgent) ? '&' : '?';
+    return `sms:${phoneNumbers.join(',')}${body ? `${separator}body=${encodeURIComponent(body)}` : ''}`;
+};
+
+const copyText = async (text: string) => {
+    if (navigator.clipboard && window.isSecureContext) {
+        await navigator.clipboard.writeText(text);
+        return;
+    }
+    const textarea = document.createElement('textarea');
+    textarea.value = text;
+    textarea.style.position = 'fixed';
+    textarea.style.opacity = '0';
+    document.body.appendChild(textarea);
+    textarea.select();
+    const copied = document.execCommand('copy');
+    document.body.removeChild(textarea);
+    if (!copied) throw new Error('clipboard unavailable');
+};
+
+const renderMessage = (template: string, member: Member, absences: number, date: string) =>
+    template
+        .replace(/\{이름\}/g, member.name)
+        .replace(/\{직분\}/g, member.position)
+        .replace(/\{결석횟수\}/g, String(absences))
+        .replace(/\{날짜\}/g, `${Number(date.slice(5, 7))}월 ${Number(date.slice(8))}일`);
+
+interface SentMessage {
+  member: Member;
+  body: string;
+}
+
+const MessageComposerModal: FC<{
+    recipients: Member[];
+    members: Member[];
+    services: ServiceType[];
+    heldSundays: string[];
+    date: string;
+    initialBody?: string;
+    templates: MessageTemplate[];
+    onSaveTemplates: (templates: MessageTemplate[]) => void;
+    onSent: (messages: SentMessage[], method: string) => void;
+    onClose: () => void;
+}> = ({ recipients, members, services, heldSundays, date, initialBody, templates, onSaveTemplates, onSent, onClose }) => {
+    const [body, setBody] = useState(initialBody ?? templates[0]?.body ?? '');
+    const [templateId, setTemplateId] = useState(initialBody === undefined ? templates[0]?.id ?? '' : '');
+    const [sentKeys, setSentKeys] = useState<Set<string>>(new Set());
+    const [copyNotice, setCopyNotice] = useState<string | null>(null);
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+    useEffect(() => {
+        const handleEsc = (event: KeyboardEvent) => {
+           if (event.key === 'Escape') {
+              onClose();
+           }
+        };
+        window.addEventListener('keydown', handleEsc);
+        return () => window.removeEventListener('keydown', handleEsc);
+    }, [onClose]);
+
+    // Consecutive Sunday absences for every member; the held Sundays are taken from the whole roster.
+    const absenceCounts = useMemo(
+        () => new Map(findLongTermAbsentees(members, services, heldSundays, 0).map(info => [info.member.id, info.consecutiveAbsences])),
+        [members, services, heldSundays]
+    );
+
+    const withPhone = recipients.filter(m => m.phone.replace(/\D/g, ''));
+    const missingPhone = recipients.filter(m => !m.phone.replace(/\D/g, ''));
+    const messages: SentMessage[] = withPhone.map(member => ({ member, body: renderMessage(body, member, absenceCounts.get(member.id) ?? 0, date) }));
+    // Messages that render the same for everyone can go out as group messages; otherwise each person gets their own.
+    const isPersonalized = new Set(messages.map(m => m.body)).size > 1;
+    const batches = Array.from({ length: Math.ceil(messages.length / SMS_BATCH_SIZE) }, (_, i) => messages.slice(i * SMS_BATCH_SIZE, (i + 1) * SMS_BATCH_SIZE));
+
+    useEffect(() => {
+        setSentKeys(new Set());
+    }, [body]);
+
+    const markSent = (key: string, sent: SentMessage[], method: string) => {
+        setSentKeys(prev => new Set([...prev, key]));
+        onSent(sent, method);
+    };
+
+    const handleSend = (key: string, sent: SentMessage[]) => {
+        window.location.href = buildSmsUrl(sent.map(m => normalizePhoneDigits(m.member.phone)), sent[0].body);
+        markSent(key, sent, '문자 앱');
+    };
+
+    const handleCopy = async (key: string, text: string, sent: SentMessage[], label: string) => {
+        try {
+            await copyText(text);
+            setCopyNotice(`${label}을(를) 클립보드에 복사했습니다.`);
+            if (sent.length > 0) markSent(key, sent, '클립보드 복사');
+        } catch (error) {
+            console.error('클립보드 복사 실패:', error);
+            setCopyNotice('클립보드 복사에 실패했습니다. 미리보기의 내용을 직접 선택해 복사해주세요.');
+        }
+    };
+
+    const handleTemplateSelect = (id: string) => {
+        setTemplateId(id);
+        const template = templates.find(t => t.id === id);
+        if (template) setBody(template.body);
+    };
+
+    const handleSaveTemplate = () => {
+        const current = templates.find(t => t.id === templateId);
+        const name = window.prompt('템플릿 이름을 입력하세요.', current?.name || '');
+        if (!name || !name.trim()) return;
+        const existing = templates.find(t => t.name === name.trim());
+        if (existing) {
+            onSaveTemplates(templates.map(t => (t.id === existing.id ? { ...t, body } : t)));
+            setTemplateId(existing.id);
+        } else {
+            const id = `tpl-${Date.now()}`;
+            onSaveTemplates([...templates, { id, name: name.trim(), body }]);
+            setTemplateId(id);
+        }
+    };
+
+    const handleDeleteTemplate = () => {
+        const current = templates.find(t => t.id === templateId);
+        if (current && window.confirm(`'${current.name}' 템플릿을 삭제하시겠습니까?`)) {
+            onSaveTemplates(templates.filter(t => t.id !== current.id));
+            setTemplateId('');
+        }
+    };
+
+    const insertPlaceholder = (placeholder: string) => {
+        const textarea = textareaRef.current;
+        const start = textarea ? textarea.selectionStart : body.length;
+        const end = textarea ? textarea.selectionEnd : body.length;
+        setBody(body.slice(0, start) + placeholder + body.slice(end));
+        requestAnimationFrame(() => {
+            textarea?.focus();
+            textarea?.setSelectionRange(start + placeholder.length, start + placeholder.length);
+        });
+    };
+
+    return (
+        <div className="modal-overlay" onClick={onClose} role="dialog" aria-modal="true" aria-labelledby="composer-modal-title">
+            <div className="modal-content modal-content-large" onClick={e => e.stopPropagation()}>
+                <header className="modal-header">
+                    <h2 id="composer-modal-title">문자 보내기 ({withPhone.length}명)</h2>
+                    <button className="btn-close" onClick={onClose} aria-label="닫기">&times;</button>
+                </header>
+                <div className="modal-body">
+                    <div className="form-group">
+                        <label htmlFor="composer-template">템플릿</label>
+                        <div className="form-row">
+                            <select id="composer-template" value={templateId} onChange={e => handleTemplateSelect(e.target.value)}>
+                                <option value="">직접 작성</option>
+                                {templates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                            </select>
+                            <button type="button" className="btn" onClick={handleSaveTemplate} disabled={!body.trim()}>템플릿으로 저장</button>
+                            <button type="button" className="btn" onClick={handleDeleteTemplate} disabled={!templateId}>템플릿 삭제</button>
+                        </div>
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="composer-body">내용</label>
+                        <textarea id="composer-body" ref={textareaRef} rows={4} value={body} onChange={e => setBody(e.target.value)} />
+                        <div className="placeholder-buttons">
+                            {MESSAGE_PLACEHOLDERS.map(placeholder => (
+                                <button key={placeholder} type="button" className="btn" onClick={() => insertPlaceholder(placeholder)}>{placeholder}</button>
+                            ))}
+                        </div>
+                        <p className="form-hint">{'{결석횟수}'}는 최근 연속 주일 결석 수, {'{날짜}'}는 선택한 날짜({Number(date.slice(5, 7))}월 {Number(date.slice(8))}일)로 바뀝니다.</p>
+                    </div>
+
+                    {missingPhone.length > 0 && (
+                        <p className="form-hint">전화번호가 없어 제외된 교인: {missingPhone.map(m => m.name).join(', ')}</p>
+                    )}
+
+                    <div className="composer-actions">
+                        {isPersonalized ? (
+                            <span className="selection-info">사람마다 내용이 달라 한 명씩 보냅니다.</span>
+                        ) : (
+                            batches.map((batch, i) => (
+                                <button key={i} className={`btn btn-sms ${sentKeys.has(`batch-${i}`) ? 'composer-sent' : ''}`} onClick={() => handleSend(`batch-${i}`, batch)} disabled={!body.trim()}>
+                                    {sentKeys.has(`batch-${i}`) && '✓ '}{batches.length > 1 ? `${i + 1}묶음 보내기 (${batch.length}명)` : `문자 앱으로 보내기 (${batch.length}명)`}
+                                </button>
+                            ))
+                        )}
+                        <button className="btn" onClick={() => handleCopy('numbers', withPhone.map(m => m.phone).join(', '), [], '전화번호')} disabled={withPhone.length === 0}>번호 복사</button>
+                        {!isPersonalized && (
+                            <button className="btn" onClick={() => handleCopy('all', messages[0]?.body || '', messages, '메시지')} disabled={messages.length === 0 || !body.trim()}>메시지 복사</button>
+                        )}
+                    </div>
+                    {!isPersonalized && batches.length > 1 && (
+                        <p className="form-hint">휴대폰의 단체 문자 수신자 제한 때문에 {SMS_BATCH_SIZE}명씩 나누어 보냅니다.</p>
+                    )}
+                    {copyNotice && <p className="form-hint" role="status">{copyNotice}</p>}
+
+                    <h4 className="composer-preview-title">미리보기</h4>
+                    <ul className="composer-preview">
+                        {messages.map(message => {
+                            const key = `member-${message.member.id}`;
+                            return (
+                                <li key={message.member.id} className={sentKeys.has(key) ? 'composer-sent' : ''}>
+                                    <div className="composer-preview-meta">
+                                        <strong>{message.member.name}</strong> <span>{message.member.phone}</span>
+                                        {isPersonalized && (
+                                            <span className="composer-preview-actions">
+                                                <button className="btn btn-sms" onClick={() => handleSend(key, [message])} disabled={!body.trim()}>{sentKeys.has(key) ? '✓ 보냄' : '보내기'}</button>
+                                                <button className="btn" onClick={() => handleCopy(key, message.body, [message], `${message.member.name}님 메시지`)}>복사</button>
+                                            </span>
+                                        )}
+                                    </div>
+                                    <p>{message.body}</p>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// The first and last pages plus a window around the current one; skipped ranges become null (an ellipsis).
+const getPageWindow = (currentPage: number, totalPages: number, radius = 2): (number | null)[] => {
+    const pages: (number | null)[] = [];
+    for (let page = 1; page <= totalPages; page++) {
+        if (page === 1 || page === totalPages || Math.abs(page - currentPage) <= radius) {
+            pages.push(page);
+        } else if (pages[pages.length - 1] !== null) {
+            pages.push(null);
+        }
+    }
+    return pages;
+};
+
+const Pagination: FC<{ currentPage: number; totalPages: number; onPageChange: (page: number) => void; }> = ({ currentPage, totalPages, onPageChange }) => {
+    if (totalPages <= 1) return null;
+
+    const handlePrev = () => {
+        if (currentPage > 1) onPageChange(currentPage - 1);
+    };
+    const handleNext = () => {
+        if (currentPage < totalPages) onPageChange(currentPage + 1);
+    };
+
+    const pageNumbers = getPageWindow(currentPage, totalPages);
+
+    return (
+        <nav className="pagination-container" aria-label="페이지네이션">
+            <button onClick={handlePrev} disabled={currentPage === 1} className="pagination-button">
+                이전
+            </button>
+            {pageNumbers.map((number, i) => number === null ? (
+                <span key={`gap-${i}`} className="pagination-ellipsis" aria-hidden="true">…</span>
+            ) : (
+                <button
+                    key={number}
+                    onClick={() => onPageChange(number)}
+                    className={`pagination-button ${currentPage === number ? 'active' : ''}`}
+                    aria-current={currentPage === number ? 'page' : undefined}
+                >
+                    {number}
+                </button>
+            ))}
+            <button onClick={handleNext} disabled={currentPage === totalPages} className="pagination-button">
+                다음
+            </button>
+        </nav>
+    );
+};
+
+
+const BACKUP_FORMAT = 'churchAttendanceBackup';
+const BACKUP_VERSION = 3;
+
+// A backup carries the services and groups its members refer to, the visitors kept apart from them and the
+// settings rates and messages depend on, so it restores on a fresh browser. Files exported before this
+// format are a bare array of members.
+interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string; // ISO date-time
+  members: Member[];
+  services: ServiceType[];
+  groups: MemberGroup[];
+  visitors: Visitor[]; // since version 2
+  specialDays: SpecialDay[]; // since version 3
+  awardThresholds: AwardThresholds;
+  messageTemplates: MessageTemplate[];
+}
+
+// Settings a file doesn't carry are null and left as they are on import.
+interface ParsedBackup {
+  members: unknown;
+  services: ServiceType[] | null; // null only for the old bare-array format
+  groups: MemberGroup[] | null;
+  visitors: unknown; // checked by validateImportedVisitors
+  specialDays: SpecialDay[] | null;
+  awardThresholds: AwardThresholds | null;
+  messageTemplates: MessageTemplate[] | null;
+}
+
+// Checks the envelope and the settings it carries; the members are left to validateImportedData.
+const parseBackupFile = (data: any): { backup: ParsedBackup | null; error: string | null } => {
+    if (Array.isArray(data)) {
+        return { backup: { members: data, services: null, groups: null, visitors: null, specialDays: null, awardThresholds: null, messageTemplates: null }, error: null };
+    }
+    if (typeof data !== 'object' || data === null || data.format !== BACKUP_FORMAT) {
+        return { backup: null, error: '예배 출석부에서 내보낸 데이터 파일이 아닙니다.' };
+    }
+    if (typeof data.version !== 'number' || data.version > BACKUP_VERSION) {
+        return { backup: null, error: '더 새로운 버전에서 내보낸 파일입니다. 앱을 새로고침한 뒤 다시 시도해주세요.' };
+    }
+    const services = data.services ?? [];
+    if (!Array.isArray(services) || services.some((s: any) => typeof s !== 'object' || s === null || typeof s.id !== 'string' || typeof s.name !== 'string' || !Number.isInteger(s.dayOfWeek) || s.dayOfWeek < 0 || s.dayOfWeek > 6)) {
+        return { backup: null, error: '파일의 예배 설정이 올바르지 않습니다.' };
+    }
+    const groups = data.groups ?? [];
+    if (!Array.isArray(groups) || groups.some((g: any) => typeof g !== 'object' || g === null || typeof g.id !== 'string' || typeof g.name !== 'string' || !GROUP_KINDS.includes(g.kind) || (g.leaderId !== undefined && typeof g.leaderId !== 'number'))) {
+        return { backup: null, error: '파일의 소그룹 설정이 올바르지 않습니다.' };
+    }
+    const specialDays = data.specialDays ?? null;
+    if (specialDays !== null && (!Array.isArray(specialDays) || specialDays.some((d: any) => typeof d !== 'object' || d === null || typeof d.date !== 'string' || !isValidDateKey(d.date) || !SPECIAL_DAY_KINDS.includes(d.kind) || (d.note !== undefined && typeof d.note !== 'string')))) {
+        return { backup: null, error: '파일의 특별 예배일 설정이 올바르지 않습니다.' };
+    }
+    const awardThresholds = data.awardThresholds ?? null;
+    if (awardThresholds !== null && (typeof awardThresholds !== 'object' || (Object.keys(DEFAULT_AWARD_THRESHOLDS) as (keyof AwardThresholds)[]).some(key => !Number.isInteger(awardThresholds[key]) || awardThresholds[key] < 0))) {
+        return { backup: null, error: '파일의 개근·정근 기준 설정이 올바르지 않습니다.' };
+    }
+    const messageTemplates = data.messageTemplates ?? null;
+    if (messageTemplates !== null && (!Array.isArray(messageTemplates) || messageTemplates.some((t: any) => typeof t !== 'object' || t === null || typeof t.id !== 'string' || typeof t.name !== 'string' || typeof t.body !== 'string'))) {
+        return { backup: null, error: '파일의 메시지 템플릿 설정이 올바르지 않습니다.' };
+    }
+    return { backup: { members: data.members, services, groups, visitors: data.visitors ?? null, specialDays, awardThresholds, messageTemplates }, error: null };
+};
+
+// Special days are keyed by their date; a date already marked keeps its current entry.
+const addMissingSpecialDays = (current: SpecialDay[], incoming: SpecialDay[]): SpecialDay[] => {
+    const missing = incoming.filter(day => !current.some(existing => existing.date === day.date));
+    return missing.length > 0 ? [...current, ...missing].sort((a, b) => a.date.localeCompare(b.date)) : current;
+};
+
+// Keeps every current item and adds the incoming ones whose id isn't known yet.
+const addMissingById = <T extends { id: string | number }>(current: T[], incoming: T[]): T[] => {
+    const missing = incoming.filter(item => !current.some(existing => existing.id === item.id));
+    return missing.length > 0 ? [...current, ...missing] : current;
+};
+
+const validateImportedData = (data: any, services: ServiceType[], groups: MemberGroup[]): { isValid: boolean; error: string | null; validatedMembers: Member[] | null } => {
+    if (typeof data === 'undefined' || data === null) {
+        return { isValid: false, error: '파일에 데이터가 없습니다.', validatedMembers: null };
+    }
+    if (!Array.isArray(data)) {
+        return { isValid: false, error: '데이터 파일의 최상위 구조는 배열(Array)이어야 합니다.', validatedMembers: null };
+    }
+
+    const validatedMembers: Member[] = [];
+    for (let i = 0; i < data.length; i++) {
+        const member = data[i];
+        if (typeof member !== 'object' || member === null) {
+            return { isValid: false, error: `${i + 1}번째 항목이 올바른 객체(Object)가 아닙니다.`, validatedMembers: null };
+        }
+        
+        if (typeof member.id !== 'number') return { isValid: false, error: `${i + 1}번째 항목에 숫자 타입의 'id'가 없습니다.`, validatedMembers: null };
+        if (typeof member.name !== 'string') return { isValid: false, error: `${i + 1}번째 항목에 문자열 타입의 'name'이 없습니다.`, validatedMembers: null };
+        if (typeof member.position !== 'string' || !POSITIONS.includes(member.position)) return { isValid: false, error: `${i + 1}번째 항목의 'position' 값이 유효하지 않습니다: ${member.position}`, validatedMembers: null };
+        if (typeof member.phone !== 'string') return { isValid: false, error: `${i + 1}번째 항목에 문자열 타입의 'phone'이 없습니다.`, validatedMembers: null };
+        if (typeof member.attendance !== 'object' || member.attendance === null) return { isValid: false, error: `${i + 1}번째 항목에 객체 타입의 'attendance'가 없습니다.`, validatedMembers: null };
+        
+        for (const date in member.attendance) {
+            if (Object.prototype.hasOwnProperty.call(member.attendance, date)) {
+                const value = member.attendance[date];
+                if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+                     return { isValid: false, error: `${member.name}님의 '${date}' 날짜 형식이 올바르지 않습니다.`, validatedMembers: null };
+                }
+                // Older files store a single status per date; newer files store one status per service.
+                if (typeof value === 'string') {
+                    if (!ATTENDANCE_STATUSES.includes(value as AttendanceStatus)) {
+                        return { isValid: false, error: `${member.name}님의 '${date}' 날짜의 출석 데이터('${value}')가 올바르지 않습니다.`, validatedMembers: null };
+                    }
+                    continue;
+                }
+                if (typeof value !== 'object' || value === null) {
+                    return { isValid: false, error: `${member.name}님의 '${date}' 날짜의 출석 데이터가 올바르지 않습니다.`, validatedMembers: null };
+                }
+                for (const serviceId in value) {
+                    if (!services.some(s => s.id === serviceId)) {
+                        return { isValid: false, error: `${member.name}님의 '${date}' 출석 데이터에 등록되지 않은 예배('${serviceId}')가 있습니다. 예배 설정을 확인해주세요.`, validatedMembers: null };
+                    }
+                    if (!ATTENDANCE_STATUSES.includes(value[serviceId])) {
+                        return { isValid: false, error: `${member.name}님의 '${date}' 날짜의 출석 데이터('${value[serviceId]}')가 올바르지 않습니다.`, validatedMembers: null };
+                    }
+                }
+            }
+        }
+        if (member.followUps !== undefined) {
+            if (!Array.isArray(member.followUps)) return { isValid: false, error: `${member.name}님의 'followUps'가 배열(Array)이 아닙니다.`, validatedMembers: null };
+            for (const followUp of member.followUps) {
+                if (typeof followUp !== 'object' || followUp === null || typeof followUp.id !== 'number' || !/^\d{4}-\d{2}-\d{2}$/.test(followUp.date) || !FOLLOW_UP_TYPES.includes(followUp.type) || typeof followUp.note !== 'string') {
+                    return { isValid: false, error: `${member.name}님의 심방 기록 데이터가 올바르지 않습니다.`, validatedMembers: null };
+                }
+            }
+        }
+        if (member.excuses !== undefined) {
+            if (!Array.isArray(member.excuses)) return { isValid: false, error: `${member.name}님의 'excuses'가 배열(Array)이 아닙니다.`, validatedMembers: null };
+            for (let j = 0; j < member.excuses.length; j++) {
+                const excuse = member.excuses[j];
+                if (typeof excuse !== 'object' || excuse === null || typeof excuse.id !== 'number' || (excuse.note !== undefined && typeof excuse.note !== 'string')) {
+                    return { isValid: false, error: `${member.name}님의 기간 사유 데이터가 올바르지 않습니다.`, validatedMembers: null };
+                }
+                const excuseError = getExcuseError(excuse, member.excuses.slice(0, j));
+                if (excuseError) return { isValid: false, error: `${member.name}님의 기간 사유: ${excuseError}`, validatedMembers: null };
+            }
+        }
+        if (member.householdHeadId !== undefined && typeof member.householdHeadId !== 'number') {
+            return { isValid: false, error: `${member.name}님의 'householdHeadId'가 숫자가 아닙니다.`, validatedMembers: null };
+        }
+        if (member.visitorId !== undefined && typeof member.visitorId !== 'number') {
+            return { isValid: false, error: `${member.name}님의 'visitorId'가 숫자가 아닙니다.`, validatedMembers: null };
+        }
+        if (member.groupIds !== undefined) {
+            if (!Array.isArray(member.groupIds) || member.groupIds.some((id: unknown) => typeof id !== 'string')) {
+                return { isValid: false, error: `${member.name}님의 'groupIds'가 문자열 배열이 아닙니다.`, validatedMembers: null };
+            }
+            const unknownGroupId = member.groupIds.find((id: string) => !groups.some(g => g.id === id));
+            if (unknownGroupId) {
+                return { isValid: false, error: `${member.name}님의 소속에 등록되지 않은 소그룹('${unknownGroupId}')이 있습니다. 소그룹 설정을 확인해주세요.`, validatedMembers: null };
+            }
+        }
+        // Profile fields are optional so files saved before they existed still import.
+        if (member.membershipStatus !== undefined && !MEMBERSHIP_STATUSES.includes(member.membershipStatus)) {
+            return { isValid: false, error: `${member.name}님의 '교적 상태' 값이 유효하지 않습니다: ${member.membershipStatus}`, validatedMembers: null };
+        }
+        if (member.birthCalendar !== undefined && !CALENDAR_TYPES.includes(member.birthCalendar)) {
+            return { isValid: false, error: `${member.name}님의 '양력/음력' 값이 유효하지 않습니다: ${member.birthCalendar}`, validatedMembers: null };
+        }
+        if (member.gender !== undefined && !GENDERS.includes(member.gender)) {
+            return { isValid: false, error: `${member.name}님의 '성별' 값이 유효하지 않습니다: ${member.gender}`, validatedMembers: null };
+        }
+        for (const field of PROFILE_DATE_FIELDS) {
+            if (member[field] !== undefined && (typeof member[field] !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(member[field]))) {
+                return { isValid: false, error: `${member.name}님의 '${PROFILE_FIELD_LABELS[field]}' 날짜 형식이 올바르지 않습니다: ${member[field]}`, validatedMembers: null };
+            }
+        }
+        for (const field of ['address', 'notes'] as const) {
+            if (member[field] !== undefined && typeof member[field] !== 'string') {
+                return { isValid: false, error: `${member.name}님의 '${PROFILE_FIELD_LABELS[field]}'가 문자열이 아닙니다.`, validatedMembers: null };
+            }
+        }
+        if (member.photo !== undefined && (typeof member.photo !== 'string' || !member.photo.startsWith('data:image/'))) {
+            return { isValid: false, error: `${member.name}님의 사진 데이터가 올바르지 않습니다.`, validatedMembers: null };
+        }
+        if (member.newFamilyEducation !== undefined && (typeof member.newFamilyEducation !== 'object' || member.newFamilyEducation === null
+            || Object.entries(member.newFamilyEducation).some(([step, date]) => !NEW_FAMILY_STEPS.includes(step as NewFamilyStep) || typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date)))) {
+            return { isValid: false, error: `${member.name}님의 새가족 교육 기록이 올바르지 않습니다.`, validatedMembers: null };
+        }
+        validatedMembers.push({ ...member, phone: formatPhoneNumber(member.phone) ?? member.phone, attendance: migrateAttendance(member.attendance, services) } as Member);
+    }
+
+    const byId = new Map(validatedMembers.map(m => [m.id, m]));
+    for (const member of validatedMembers) {
+        if (member.householdHeadId === undefined) continue;
+        const head = byId.get(member.householdHeadId);
+        if (!head) {
+            return { isValid: false, error: `${member.name}님의 가구주(id ${member.householdHeadId})가 파일에 없습니다.`, validatedMembers: null };
+        }
+        if (head.householdHeadId !== head.id) {
+            return { isValid: false, error: `${member.name}님의 가구주로 지정된 ${head.name}님이 가구주로 등록되어 있지 않습니다.`, validatedMembers: null };
+        }
+    }
+
+    return { isValid: true, error: null, validatedMembers };
+};
+
+const validateImportedVisitors = (data: unknown, services: ServiceType[]): { visitors: Visitor[] | null; error: string | null } => {
+    if (!Array.isArray(data)) {
+        return { visitors: null, error: '파일의 방문자 기록이 배열(Array)이 아닙니다.' };
+    }
+    for (let i = 0; i < data.length; i++) {
+        const visitor = data[i];
+        if (typeof visitor !== 'object' || visitor === null || typeof visitor.id !== 'number' || typeof visitor.name !== 'string' || typeof visitor.phone !== 'string') {
+            return { visitors: null, error: `${i + 1}번째 방문자 기록에 'id', 'name', 'phone'이 올바르게 들어 있지 않습니다.` };
+        }
+        for (const field of ['inviter', 'notes'] as const) {
+            if (visitor[field] !== undefined && typeof visitor[field] !== 'string') {
+                return { visitors: null, error: `방문자 ${visitor.name}님의 '${field}'가 문자열이 아닙니다.` };
+            }
+        }
+        if (visitor.source !== undefined && !VISIT_SOURCES.includes(visitor.source)) {
+            return { visitors: null, error: `방문자 ${visitor.name}님의 방문 경로 값이 유효하지 않습니다: ${visitor.source}` };
+        }
+        if (!Array.isArray(visitor.visits) || visitor.visits.some((visit: any) => typeof visit !== 'object' || visit === null || typeof visit.date !== 'string' || !isValidDateKey(visit.date) || !services.some(s => s.id === visit.serviceId))) {
+            return { visitors: null, error: `방문자 ${visitor.name}님의 방문 기록이 올바르지 않거나 등록되지 않은 예배를 가리킵니다.` };
+        }
+        if (visitor.education !== undefined && (typeof visitor.education !== 'object' || visitor.education === null
+            || Object.entries(visitor.education).some(([step, date]) => !NEW_FAMILY_STEPS.includes(step as NewFamilyStep) || typeof date !== 'string' || !isValidDateKey(date)))) {
+            return { visitors: null, error: `방문자 ${visitor.name}님의 새가족 교육 기록이 올바르지 않습니다.` };
+        }
+    }
+    return { visitors: data as Visitor[], error: null };
+};
+
+interface MergeConflict {
+  key: string;
+  memberId: number; // id of the existing member the incoming record was matched to
+  memberName: string;
+  kind: 'attendance' | 'name' | 'phone' | 'position' | 'excuse';
+  date?: string;
+  serviceId?: string;
+  excuse?: AttendanceExcuse; // the incoming excuse, which replaces the current ones it overlaps when chosen
+  current: string;
+  incoming: string;
+}
+
+const describeExcusePeriod = (excuse: AttendanceExcuse) => `${excuse.status} ${excuse.from} ~ ${excuse.to}${excuse.note ? ` (${excuse.note})` : ''}`;
+
+const overlapsExcuse = (a: AttendanceExcuse, b: AttendanceExcuse) => a.from <= b.to && b.from <= a.to;
+
+interface MergePlan {
+  merged: Member[]; // conflicts resolved in favour of the current data
+  added: Member[];
+  updated: { id: number; name: string; newRecords: number }[];
+  unchangedCount: number;
+  conflicts: MergeConflict[];
+  idMatches: { incoming: Member; existing: Member }[]; // same id but a different name, merged only once confirmed
+}
+
+// Incoming members are matched by id when the names agree. Otherwise a member with the same name (and the same
+// phone, when the incoming record has one) is matched, provided there is exactly one. A same-id member with
+// another name is only merged into when its incoming id is in `confirmedIds`; until then the record is added
+// as a new member. Spreadsheet rows carry negative ids (see validateSpreadsheetRows), so they are only matched by name and phone.
+// Current members are copied only when they change, so untouched ones keep their identity and aren't rewritten on save.
+const planMergeImport = (current: Member[], incoming: Member[], confirmedIds: Set<number> = new Set()): MergePlan => {
+    const byId = new Map(current.map(m => [m.id, m]));
+    const order = current.map(m => m.id);
+    const copied = new Set<number>();
+    const edit = (id: number) => {
+        if (!copied.has(id)) {
+            byId.set(id, { ...byId.get(id)! });
+            copied.add(id);
+        }
+        return byId.get(id)!;
+    };
+    const findByName = (member: Member) => {
+        const candidates = Array.from(byId.values()).filter(m => m.name === member.name
+            && (!member.phone || normalizePhoneDigits(m.phone) === normalizePhoneDigits(member.phone)));
+        return candidates.length === 1 ? candidates[0] : undefined;
+    };
+
+    const addedIds: number[] = [];
+    const updated: MergePlan['updated'] = [];
+    const conflicts: MergeConflict[] = [];
+    const idMatches: MergePlan['idMatches'] = [];
+    let unchangedCount = 0;
+    let nextId = Math.max(0, ...current.map(m => m.id), ...incoming.map(m => m.id)) + 1;
+    const matchedByIncomingId = new Map<number, number>();
+
+    incoming.forEach(member => {
+        const sameId = member.id > 0 ? byId.get(member.id) : undefined;
+        let target = sameId && sameId.name === member.name ? sameId : findByName(member);
+        if (!target && sameId) {
+            idMatches.push({ incoming: member, existing: sameId });
+            if (confirmedIds.has(member.id)) target = sameId;
+        }
+        if (!target) {
+            const newMember = { ...member, id: member.id <= 0 || byId.has(member.id) ? nextId++ : member.id };
+            byId.set(newMember.id, newMember);
+            copied.add(newMember.id);
+            order.push(newMember.id);
+            addedIds.push(newMember.id);
+            matchedByIncomingId.set(member.id, newMember.id);
+            return;
+        }
+        matchedByIncomingId.set(member.id, target.id);
+
+        let newRecords = 0;
+        let attendance = target.attendance;
+        flattenAttendance(member.attendance).forEach(({ date, serviceId, status }) => {
+            const existing = getAttendanceStatus(target, date, serviceId);
+            if (existing === undefined) {
+                attendance = updateAttendance(attendance, date, serviceId, status);
+                newRecords++;
+            } else if (existing !== status) {
+                conflicts.push({ key: `${target.id}|${date}|${serviceId}`, memberId: target.id, memberName: target.name, kind: 'attendance', date, serviceId, current: existing, incoming: status });
+            }
+        });
+        (['name', 'phone', 'position'] as const).forEach(field => {
+            const differs = field === 'phone' ? normalizePhoneDigits(target.phone) !== normalizePhoneDigits(member.phone) : target[field] !== member[field];
+            if (differs && member[field]) {
+                conflicts.push({ key: `${target.id}|${field}`, memberId: target.id, memberName: target.name, kind: field, current: target[field], incoming: member[field] });
+            }
+        });
+
+        const knownFollowUps = new Set((target.followUps || []).map(f => `${f.date}|${f.type}|${f.note}`));
+        const newFollowUps = (member.followUps || []).filter(f => !knownFollowUps.has(`${f.date}|${f.type}|${f.note}`));
+        let followUps = target.followUps;
+        if (newFollowUps.length > 0) {
+            let nextFollowUpId = Math.max(0, ...(target.followUps || []).map(f => f.id)) + 1;
+            followUps = [...(target.followUps || []), ...newFollowUps.map(f => ({ ...f, id: nextFollowUpId++ }))];
+        }
+
+        // Excuses the current record lacks are added; one overlapping a different current excuse is a conflict.
+        let excuses = target.excuses;
+        let newExcuseCount = 0;
+        (member.excuses || []).forEach(excuse => {
+            const existing = excuses || [];
+            if (existing.some(e => e.status === excuse.status && e.from === excuse.from && e.to === excuse.to)) return;
+            const overlapping = existing.filter(e => overlapsExcuse(e, excuse));
+            if (overlapping.length > 0) {
+                conflicts.push({ key: `${target.id}|excuse|${excuse.from}|${excuse.to}`, memberId: target.id, memberName: target.name, kind: 'excuse', excuse, current: overlapping.map(describeExcusePeriod).join(', '), incoming: describeExcusePeriod(excuse) });
+                return;
+            }
+            excuses = [...existing, { ...excuse, id: Math.max(0, ...existing.map(e => e.id)) + 1 }];
+            newExcuseCount++;
+        });
+
+        const newGroupIds = (member.groupIds || []).filter(id => !(target.groupIds || []).includes(id));
+        const groupIds = newGroupIds.length > 0 ? [...(target.groupIds || []), ...newGroupIds] : target.groupIds;
+        // Profile fields, completed 새가족 교육 weeks and the visitor link only fill in what the current record is missing.
+        const incomingProfile = pickProfile(member);
+        const filledProfile = (Object.keys(incomingProfile) as (keyof MemberProfile)[]).filter(key => !target[key]);
+        const newSteps = NEW_FAMILY_STEPS.filter(step => member.newFamilyEducation?.[step] && !target.newFamilyEducation?.[step]);
+        const fillsVisitorId = target.visitorId === undefined && member.visitorId !== undefined;
+
+        if (newRecords > 0 || newFollowUps.length > 0 || newExcuseCount > 0 || newGroupIds.length > 0 || filledProfile.length > 0 || newSteps.length > 0 || fillsVisitorId) {
+            const changed = edit(target.id);
+            filledProfile.forEach(key => Object.assign(changed, { [key]: incomingProfile[key] }));
+            if (newExcuseCount > 0) changed.excuses = excuses;
+            if (newSteps.length > 0) {
+                changed.newFamilyEducation = { ...target.newFamilyEducation, ...Object.fromEntries(newSteps.map(step => [step, member.newFamilyEducation![step]])) };
+            }
+            if (fillsVisitorId) changed.visitorId = member.visitorId;
+            Object.assign(changed, { attendance, followUps, groupIds });
+            updated.push({ id: target.id, name: target.name, newRecords });
+        } else {
+            unchangedCount++;
+        }
+    });
+
+    // Household links refer to incoming ids, which may have been renumbered or matched to existing members.
+    // Existing household links are kept; members without one adopt the imported household.
+    incoming.forEach(member => {
+        const targetId = matchedByIncomingId.get(member.id)!;
+        const headId = member.householdHeadId !== undefined ? matchedByIncomingId.get(member.householdHeadId) : undefined;
+        if (addedIds.includes(targetId)) {
+            const target = edit(targetId);
+            if (headId === undefined) delete target.householdHeadId;
+            else target.householdHeadId = headId;
+        } else if (byId.get(targetId)!.householdHeadId === undefined && headId !== undefined) {
+            edit(targetId).householdHeadId = headId;
+            if (!updated.some(u => u.id === targetId)) {
+                updated.push({ id: targetId, name: byId.get(targetId)!.name, newRecords: 0 });
+                unchangedCount--;
+            }
+        }
+    });
+    order.forEach(id => {
+        const member = byId.get(id)!;
+        if (member.householdHeadId !== undefined && byId.get(member.householdHeadId)?.householdHeadId !== member.householdHeadId) {
+            delete edit(id).householdHeadId;
+        }
+    });
+
+    return { merged: order.map(id => byId.get(id)!), added: addedIds.map(id => byId.get(id)!), updated, unchangedCount, conflicts, idMatches };
+};
+
+// Gives members without an id of their own (spreadsheet rows) one above every other id, e.g. when they replace the roster.
+const assignMissingIds = (members: Member[]): Member[] => {
+    let nextId = Math.max(0, ...members.map(m => m.id)) + 1;
+    return members.map(m => (m.id > 0 ? m : { ...m, id: nextId++ }));
+};
+
+// 'present': where both members have a record for the same service, a status counted as attended wins.
+// 'target': the kept member's record wins.
+type MemberMergeRule = 'present' | 'target';
+
+// Folds a duplicate record into the member being kept. Follow-ups and groups are combined
+// and profile fields the kept member is missing are filled in from the duplicate.
+const mergeMemberRecords = (target: Member, source: Member, rule: MemberMergeRule): Member => {
+    let attendance = target.attendance;
+    flattenAttendance(source.attendance).forEach(({ date, serviceId, status }) => {
+        const existing = getAttendanceStatus(target, date, serviceId);
+        if (existing === undefined || (rule === 'present' && ATTENDANCE_OUTCOMES[status] === 'present' && ATTENDANCE_OUTCOMES[existing] !== 'present')) {
+            attendance = updateAttendance(attendance, date, serviceId, status);
+        }
+    });
+
+    const knownFollowUps = new Set((target.followUps || []).map(f => `${f.date}|${f.type}|${f.note}`));
+    const newFollowUps = (source.followUps || []).filter(f => !knownFollowUps.has(`${f.date}|${f.type}|${f.note}`));
+    let nextFollowUpId = Math.max(0, ...(target.followUps || []).map(f => f.id)) + 1;
+    const followUps = [...(target.followUps || []), ...newFollowUps.map(f => ({ ...f, id: nextFollowUpId++ }))];
+    const groupIds = Array.from(new Set([...(target.groupIds || []), ...(source.groupIds || [])]));
+
+    const merged: Member = { ...target, attendance };
+    if (followUps.length > 0) merged.followUps = followUps;
+    if (groupIds.length > 0) merged.groupIds = groupIds;
+    return withProfile(merged, { ...pickProfile(source), ...pickProfile(target) });
+};
+
+// The merged member takes over the duplicate's household when they had none of their own
+// (as the head, when the duplicate was the head). Otherwise the duplicate simply leaves its household.
+const mergeMembers = (members: Member[], targetId: number, sourceId: number, rule: MemberMergeRule): Member[] => {
+    const target = members.find(m => m.id === targetId);
+    const source = members.find(m => m.id === sourceId);
+    if (!target || !source || targetId === sourceId) return members;
+    let next = members.map(m => (m.id === targetId ? mergeMemberRecords(target, source, rule) : m));
+    if (target.householdHeadId === undefined && source.householdHeadId !== undefined) {
+        const sourceHeadId = source.householdHeadId;
+        const headId = sourceHeadId === sourceId ? targetId : sourceHeadId;
+        next = next.map(m => (m.householdHeadId === sourceHeadId || m.id === targetId ? withHouseholdHead(m, headId) : m));
+    } else {
+        next = assignHousehold(next, sourceId, { headId: null, makeHead: false });
+    }
+    return next.filter(m => m.id !== sourceId);
+};
+
+const applyMergePlan = (plan: MergePlan, useIncoming: Set<string>): Member[] =>
+    plan.merged.map(member => {
+        const chosen = plan.conflicts.filter(c => c.memberId === member.id && useIncoming.has(c.key));
+        return chosen.reduce<Member>((result, conflict) => {
+            if (conflict.kind === 'attendance') {
+                return { ...result, attendance: updateAttendance(result.attendance, conflict.date!, conflict.serviceId!, conflict.incoming as AttendanceStatus) };
+            }
+            if (conflict.kind === 'excuse') {
+                const excuse = conflict.excuse!;
+                const current = result.excuses || [];
+                return { ...result, excuses: [...current.filter(e => !overlapsExcuse(e, excuse)), { ...excuse, id: Math.max(0, ...current.map(e => e.id)) + 1 }] };
+            }
+            return { ...result, [conflict.kind]: conflict.incoming };
+        }, member);
+    });
+
+interface ChangeLogEntry {
+  id: number;
+  timestamp: string; // ISO date-time
+  actor: string;
+  action: string;
+  memberId: number;
+  memberName: string;
+  details: string[];
+}
+
+interface HistoryStep {
+  label: string;
+  members: Member[];
+  groups?: MemberGroup[]; // only when the step changed groups too, e.g. a merge handing over a leader
+}
+
+const describeMemberChanges = (before: Member | undefined, after: Member | undefined, services: ServiceType[], memberNames: Map<number, string> = new Map(), groups: MemberGroup[] = []): string[] => {
+    if (!before && after) return [`교인 등록 (${after.position}, ${after.phone || '전화번호 없음'})`];
+    if (before && !after) return [`교인 삭제 (${before.position}, ${before.phone || '전화번호 없음'}, 출석 기록 ${flattenAttendance(before.attendance).length}건)`];
+    if (!before || !after) return [];
+
+    const details: string[] = [];
+    const fieldLabels = { name: '이름', position: '직분', phone: '전화번호' } as const;
+    (Object.keys(fieldLabels) as (keyof typeof fieldLabels)[]).forEach(field => {
+        if (before[field] !== after[field]) details.push(`${fieldLabels[field]}: ${before[field]} → ${after[field]}`);
+    });
+    if (getMembershipStatus(before) !== getMembershipStatus(after)) {
+        details.push(`${PROFILE_FIELD_LABELS.membershipStatus}: ${getMembershipStatus(before)} → ${getMembershipStatus(after)}`);
+    }
+    (['birthDate', 'birthCalendar', 'gender', 'address', 'registeredDate', 'baptismDate', 'notes'] as const).forEach(field => {
+        if ((before[field] || '') !== (after[field] || '')) details.push(`${PROFILE_FIELD_LABELS[field]}: ${before[field] || '없음'} → ${after[field] || '없음'}`);
+    });
+    if (before.photo !== after.photo) details.push(after.photo ? '사진 변경' : '사진 삭제');
+    NEW_FAMILY_STEPS.forEach(step => {
+        const from = before.newFamilyEducation?.[step];
+        const to = after.newFamilyEducation?.[step];
+        if (from !== to) details.push(`새가족 교육 ${step}: ${from ? `수료(${from})` : '미수료'} → ${to ? `수료(${to})` : '미수료'}`);
+    });
+    if (before.householdHeadId !== after.householdHeadId) {
+        const describeHousehold = (member: Member) => member.householdHeadId === undefined
+            ? '없음'
+            : member.householdHeadId === member.id ? '가구주' : `${memberNames.get(member.householdHeadId) || `#${member.householdHeadId}`} 가정`;
+        details.push(`가구: ${describeHousehold(before)} → ${describeHousehold(after)}`);
+    }
+    const describeGroups = (member: Member) =>
+        (member.groupIds || []).map(id => groups.find(g => g.id === id)?.name || id).join(', ') || '없음';
+    if (describeGroups(before) !== describeGroups(after)) {
+        details.push(`소속: ${describeGroups(before)} → ${describeGroups(after)}`);
+    }
+
+    const slots = new Set([...flattenAttendance(before.attendance), ...flattenAttendance(after.attendance)].map(({ date, serviceId }) => `${date}|${serviceId}`));
+    Array.from(slots).sort().forEach(slot => {
+        const [date, serviceId] = slot.split('|');
+        const from = getAttendanceStatus(before, date, serviceId);
+        const to = getAttendanceStatus(after, date, serviceId);
+        if (from !== to) {
+            const serviceName = services.find(s => s.id === serviceId)?.name || serviceId;
+            details.push(`${date} ${serviceName}: ${from || '미정'} → ${to || '미정'}`);
+        }
+    });
+
+    const describeExcuse = (excuse: AttendanceExcuse) => `${excuse.status} ${excuse.from} ~ ${excuse.to}`;
+    const beforeExcuses = new Set((before.excuses || []).map(describeExcuse));
+    const afterExcuses = new Set((after.excuses || []).map(describeExcuse));
+    beforeExcuses.forEach(excuse => { if (!afterExcuses.has(excuse)) details.push(`기간 사유 삭제: ${excuse}`); });
+    afterExcuses.forEach(excuse => { if (!beforeExcuses.has(excuse)) details.push(`기간 사유 추가: ${excuse}`); });
+
+    const knownFollowUps = new Set((before.followUps || []).map(f => f.id));
+    (after.followUps || []).filter(f => !knownFollowUps.has(f.id)).forEach(f => details.push(`심방 기록 추가: ${f.date} ${f.type}`));
+
+    return details;
+};
+
+// Builds one log entry per member whose record changed between two versions of the roster.
+const diffMembers = (prev: Member[], next: Member[], action: string, actor: string, services: ServiceType[], groups: MemberGroup[] = []): Omit<ChangeLogEntry, 'id'>[] => {
+    const prevById = new Map(prev.map(m => [m.id, m]));
+    const nextById = new Map(next.map(m => [m.id, m]));
+    const timestamp = new Date().toISOString();
+    const memberNames = new Map([...prev, ...next].map(m => [m.id, m.name]));
+    const entries: Omit<ChangeLogEntry, 'id'>[] = [];
+    new Set([...prevById.keys(), ...nextById.keys()]).forEach(id => {
+        const before = prevById.get(id);
+        const after = nextById.get(id);
+        if (before === after) return;
+        const details = describeMemberChanges(before, after, services, memberNames, groups);
+        if (details.length === 0) return;
+        entries.push({
+            timestamp,
+            actor,
+            action,
+            memberId: id,
+            memberName: (after || before)!.name,
+            details: details.length > MAX_CHANGE_LOG_DETAILS
+                ? [...details.slice(0, MAX_CHANGE_LOG_DETAILS), `외 ${details.length - MAX_CHANGE_LOG_DETAILS}건`]
+                : details,
+        });
+    });
+    return entries;
+};
+
+const loadChangeLog = (): ChangeLogEntry[] => {
+    try {
+        const savedLogRaw = window.localStorage.getItem(CHANGE_LOG_STORAGE_KEY);
+        return savedLogRaw ? JSON.parse(savedLogRaw) : [];
+    } catch (error) {
+        console.error("Could not load change log from localStorage", error);
+        return [];
+    }
+};
+
+const formatTimestamp = (timestamp: string) => {
+    const date = new Date(timestamp);
+    return `${toDateString(date)} ${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+};
+
+// --- Spreadsheet (CSV / XLSX) helpers. Everything runs in the browser without external libraries. ---
+
+type SpreadsheetFormat = 'csv' | 'xlsx';
+type SpreadsheetCell = string | number;
+
+const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const listServiceDates = (from: string, to: string, dayOfWeek: number) => {
+    const dates: string[] = [];
+    let date = addDays(from, (dayOfWeek - getDayOfWeek(from) + 7) % 7);
+    while (date <= to) {
+        dates.push(date);
+        date = addDays(date, 7);
+    }
+    return dates;
+};
+
+const buildRosterRows = (members: Member[]): SpreadsheetCell[][] => [
+    ['이름', '직분', '전화번호', ...PROFILE_COLUMNS.map(key => PROFILE_FIELD_LABELS[key])],
+    ...members.map(m => [m.name, m.position, m.phone, ...PROFILE_COLUMNS.map(key =>
+        key === 'membershipStatus' ? getMembershipStatus(m) : key === 'birthCalendar' ? (m.birthDate ? m.birthCalendar || '양력' : '') : m[key] || ''
+    )]),
+];
+
+// Cancelled days get no column, and the totals count held services like the member detail does.
+const buildAttendanceMatrixRows = (members: Member[], service: ServiceType, heldServices: HeldServices, specialDays: SpecialDay[], from: string, to: string): SpreadsheetCell[][] => {
+    const cancelledDates = findCancelledDates(specialDays);
+    const dates = listServiceDates(from, to, service.dayOfWeek).filter(date => !cancelledDates.has(date));
+    return [
+        ['이름', '직분', '전화번호', ...dates, '출석', '출석률'],
+        ...members.map(m => {
+            const tally = tallyHeldService(m, heldServices, service.id, from, to);
+            return [m.name, m.position, m.phone, ...dates.map(date => getEffectiveStatus(m, date, service.id) || ''), tally.present, tally.marked > 0 ? formatRate(tally) : ''];
+        }),
+    ];
+};
+
+const toCsv = (rows: SpreadsheetCell[][]) =>
+    // The BOM makes Excel open the file as UTF-8 so Korean text isn't garbled.
+    '\uFEFF' + rows.map(row => row.map(cell => {
+        const value = String(cell);
+        return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    }).join(',')).join('\r\n');
+
+const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    const input = text.replace(/^\uFEFF/, '');
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+        if (inQuotes) {
+            if (char === '"' && input[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows;
+};
+
+const CRC32_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+const crc32 = (data: Uint8Array) => {
+    let c = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+        c = CRC32_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+    }
+    return (c ^ 0xffffffff) >>> 0;
+};
+
+// Writes an uncompressed ("stored") zip archive, which is all an .xlsx container needs.
+const createZip = (files: { name: string; content: string }[], type: string): Blob => {
+    const encoder = new TextEncoder();
+    const localParts: Uint8Array[] = [];
+    const centralParts: Uint8Array[] = [];
+    let offset = 0;
+    const DOS_DATE_1980_01_01 = 0x21;
+
+    files.forEach(file => {
+        const name = encoder.encode(file.name);
+        const data = encoder.encode(file.content);
+        const crc = crc32(data);
+
+        const local = new Uint8Array(30 + name.length);
+        const lv = new DataView(local.buffer);
+        lv.setUint32(0, 0x04034b50, true);
+        lv.setUint16(4, 20, true);
+        lv.setUint16(6, 0x0800, true); // UTF-8 file names
+        lv.setUint16(12, DOS_DATE_1980_01_01, true);
+        lv.setUint32(14, crc, true);
+        lv.setUint32(18, data.length, true);
+        lv.setUint32(22, data.length, true);
+        lv.setUint16(26, name.length, true);
+        local.set(name, 30);
+
+        const central = new Uint8Array(46 + name.length);
+        const cv = new DataView(central.buffer);
+        cv.setUint32(0, 0x02014b50, true);
+        cv.setUint16(4, 20, true);
+        cv.setUint16(6, 20, true);
+        cv.setUint16(8, 0x0800, true);
+        cv.setUint16(14, DOS_DATE_1980_01_01, true);
+        cv.setUint32(16, crc, true);
+        cv.setUint32(20, data.length, true);
+        cv.setUint32(24, data.length, true);
+        cv.setUint16(28, name.length, true);
+        cv.setUint32(42, offset, true);
+        central.set(name, 46);
+
+        localParts.push(local, data);
+        centralParts.push(central);
+        offset += local.length + data.length;
+    });
+
+    const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+    const end = new Uint8Array(22);
+    const ev = new DataView(end.buffer);
+    ev.setUint32(0, 0x06054b50, true);
+    ev.setUint16(8, files.length, true);
+    ev.setUint16(10, files.length, true);
+    ev.setUint32(12, centralSize, true);
+    ev.setUint32(16, offset, true);
+
+    return new Blob([...localParts, ...centralParts, end], { type });
+};
+
+const readZipEntries = async (buffer: ArrayBuffer): Promise<Map<string, string>> => {
+    const bytes = new Uint8Array(buffer);
+    const view = new DataView(buffer);
+    let endOffset = -1;
+    for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65557); i--) {
+        if (view.getUint32(i, true) === 0x06054b50) {
+            endOffset = i;
+            break;
+        }
+    }
+    if (endOffset < 0) {
+        throw new Error("올바른 엑셀(xlsx) 파일이 아닙니다.");
+    }
+
+    const decoder = new TextDecoder();
+    const entries = new Map<string, string>();
+    const entryCount = view.getUint16(endOffset + 10, true);
+    let pointer = view.getUint32(endOffset + 16, true);
+    for (let i = 0; i < entryCount; i++) {
+        if (view.getUint32(pointer, true) !== 0x02014b50) {
+            throw new Error("엑셀 파일 구조를 읽을 수 없습니다.");
+        }
+        const method = view.getUint16(pointer + 10, true);
+        const compressedSize = view.getUint32(pointer + 20, true);
+        const nameLength = view.getUint16(pointer + 28, true);
+        const extraLength = view.getUint16(pointer + 30, true);
+        const commentLength = view.getUint16(pointer + 32, true);
+        const localOffset = view.getUint32(pointer + 42, true);
+        const name = decoder.decode(bytes.subarray(pointer + 46, pointer + 46 + nameLength));
+        pointer += 46 + nameLength + extraLength + commentLength;
+        if (!name.endsWith('.xml') && !name.endsWith('.rels')) continue;
+
+        const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+        const data = bytes.slice(dataStart, dataStart + compressedSize);
+        if (method === 0) {
+            entries.set(name, decoder.decode(data));
+        } else if (method === 8) {
+            const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+            entries.set(name, await new Response(stream).text());
+        } else {
+            throw new Error("지원하지 않는 압축 방식의 엑셀 파일입니다. CSV로 저장한 뒤 다시 시도해주세요.");
+        }
+    }
+    return entries;
+};
+
+const escapeXml = (value: string) =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const columnName = (index: number) => {
+    let name = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+    }
+    return name;
+};
+
+const columnIndex = (cellRef: string) =>
+    cellRef.replace(/\d+$/, '').split('').reduce((index, char) => index * 26 + char.charCodeAt(0) - 64, 0) - 1;
+
+const createXlsx = (rows: SpreadsheetCell[][], sheetName: string): Blob => {
+    const sheetRows = rows.map((row, rowIndex) => {
+        const cells = row.map((cell, cellIndex) => {
+            const ref = `${columnName(cellIndex)}${rowIndex + 1}`;
+            return typeof cell === 'number'
+                ? `<c r="${ref}"><v>${cell}</v></c>`
+                : `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`;
+        });
+        return `<row r="${rowIndex + 1}">${cells.join('')}</row>`;
+    });
+    return createZip([
+        { name: '[Content_Types].xml', content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/></Types>' },
+        { name: '_rels/.rels', content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>' },
+        { name: 'xl/workbook.xml', content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets></workbook>` },
+        { name: 'xl/_rels/workbook.xml.rels', content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/></Relationships>' },
+        { name: 'xl/worksheets/sheet1.xml', content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${sheetRows.join('')}</sheetData></worksheet>` },
+    ], XLSX_MIME);
+};
+
+// Reads the first worksheet of an .xlsx file into rows of cell text.
+const parseXlsx = async (buffer: ArrayBuffer): Promise<string[][]> => {
+    const entries = await readZipEntries(buffer);
+    const parser = new DOMParser();
+    const parseXml = (xml: string) => parser.parseFromString(xml, 'application/xml');
+    const textOf = (element: Element, tag: string) =>
+        Array.from(element.getElementsByTagNameNS('*', tag)).map(t => t.textContent || '').join('');
+
+    const sharedStringsXml = entries.get('xl/sharedStrings.xml');
+    const sharedStrings = sharedStringsXml
+        ? Array.from(parseXml(sharedStringsXml).getElementsByTagNameNS('*', 'si')).map(si => textOf(si, 't'))
+        : [];
+
+    const sheetPath = Array.from(entries.keys())
+        .filter(name => /^xl\/worksheets\/sheet\d+\.xml$/.test(name))
+        .sort((a, b) => Number(a.match(/(\d+)\.xml$/)![1]) - Number(b.match(/(\d+)\.xml$/)![1]))[0];
+    if (!sheetPath) {
+        throw new Error("엑셀 파일에서 시트를 찾을 수 없습니다.");
+    }
+
+    const rows: string[][] = [];
+    Array.from(parseXml(entries.get(sheetPath)!).getElementsByTagNameNS('*', 'row')).forEach(rowElement => {
+        const row: string[] = [];
+        Array.from(rowElement.getElementsByTagNameNS('*', 'c')).forEach((cell, position) => {
+            const ref = cell.getAttribute('r');
+            const index = ref ? columnIndex(ref) : position;
+            const type = cell.getAttribute('t');
+            const value = textOf(cell, 'v');
+            row[index] = type === 's' ? sharedStrings[Number(value)] ?? '' : type === 'inlineStr' ? textOf(cell, 't') : value;
+        });
+        rows.push(Array.from(row, cell => cell ?? ''));
+    });
+    return rows;
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+const downloadSpreadsheet = (rows: SpreadsheetCell[][], format: SpreadsheetFormat, baseName: string, sheetName: string) => {
+    if (format === 'xlsx') {
+        downloadBlob(createXlsx(rows, sheetName), `${baseName}.xlsx`);
+    } else {
+        downloadBlob(new Blob([toCsv(rows)], { type: 'text/csv;charset=utf-8' }), `${baseName}.csv`);
+    }
+};
+
+// Profile fields that can be exported to and imported from spreadsheet columns (everything except the photo).
+const PROFILE_COLUMNS = ['membershipStatus', 'birthDate', 'birthCalendar', 'gender', 'address', 'registeredDate', 'baptismDate', 'notes'] as const;
+type ProfileColumn = typeof PROFILE_COLUMNS[number];
+
+type ColumnMapping = 'ignore' | 'name' | 'position' | 'phone' | ProfileColumn | `date:${string}`;
+
+const normalizeHeaderDate = (header: string, fallbackYear: number): string | null => {
+    const value = header.trim();
+    // Excel stores dates typed into header cells as day serials counted from 1899-12-30.
+    if (/^\d{5}(\.\d+)?$/.test(value) && Number(value) > 20000 && Number(value) < 80000) {
+        return toDateString(new Date(1899, 11, 30 + Math.floor(Number(value))));
+    }
+    const full = value.match(/^(\d{4})[-./년\s]+(\d{1,2})[-./월\s]+(\d{1,2})일?\.?$/);
+    const short = value.match(/^(\d{1,2})[-./월\s]+(\d{1,2})일?$/);
+    const [y, m, d] = full ? [Number(full[1]), Number(full[2]), Number(full[3])] : short ? [fallbackYear, Number(short[1]), Number(short[2])] : [0, 0, 0];
+    if (!y || m < 1 || m > 12 || d < 1 || d > 31) return null;
+    const date = new Date(y, m - 1, d);
+    return date.getMonth() === m - 1 ? toDateString(date) : null;
+};
+
+const guessColumnMapping = (header: string, fallbackYear: number): ColumnMapping => {
+    const value = header.trim().replace(/\s/g, '');
+    if (['이름', '성명', '성함', 'name'].includes(value.toLowerCase())) return 'name';
+    if (['직분', '직책', 'position'].includes(value.toLowerCase())) return 'position';
+    if (['전화번호', '연락처', '휴대폰', '핸드폰', '전화', 'phone'].includes(value.toLowerCase())) return 'phone';
+    if (['교적상태', '상태'].includes(value)) return 'membershipStatus';
+    if (['생년월일', '생일'].includes(value)) return 'birthDate';
+    if (['양력/음력', '음력', '양음력'].includes(value)) return 'birthCalendar';
+    if (value === '성별') return 'gender';
+    if (value === '주소') return 'address';
+    if (['등록일', '등록일자'].includes(value)) return 'registeredDate';
+    if (['세례일', '세례일자'].includes(value)) return 'baptismDate';
+    if (['메모', '비고'].includes(value)) return 'notes';
+    const date = normalizeHeaderDate(header, fallbackYear);
+    return date ? `date:${date}` : 'ignore';
+};
+
+const parseAttendanceCell = (value: string): AttendanceStatus | '' | null => {
+    const cell = value.trim().toLowerCase();
+    if (cell === '') return '';
+    if (['출석', 'o', '○', '◯', 'v', '✓', '✔', '1', 'y', 'true'].includes(cell)) return '출석';
+    if (['결석', 'x', '×', '0', 'n', 'false'].includes(cell)) return '결석';
+    if (['온라인', '온라인예배'].includes(cell)) return '온라인 예배';
+    if (['출장', '여행'].includes(cell)) return '출장/여행';
+    return ATTENDANCE_STATUSES.find(status => status === cell) ?? null;
+};
+
+const parseProfileCell = (column: ProfileColumn, value: string): string | null => {
+    const cell = value.trim();
+    if (cell === '') return '';
+    if (column === 'membershipStatus') return MEMBERSHIP_STATUSES.includes(cell as MembershipStatus) ? cell : null;
+    if (column === 'birthCalendar') return cell === '음력' ? '음력' : cell === '양력' ? '' : null;
+    if (column === 'gender') return ['남', '남자', 'm', 'male'].includes(cell.toLowerCase()) ? '남' : ['여', '여자', 'f', 'female'].includes(cell.toLowerCase()) ? '여' : null;
+    if ((PROFILE_DATE_FIELDS as readonly string[]).includes(column)) return normalizeHeaderDate(cell, 0);
+    return cell;
+};
+
+const validateSpreadsheetRows = (rows: string[][], mappings: ColumnMapping[], serviceId: string): { isValid: boolean; errors: string[]; validatedMembers: Member[] | null } => {
+    const errors: string[] = [];
+    const nameColumn = mappings.indexOf('name');
+    if (nameColumn < 0) {
+        return { isValid: false, errors: ["'이름' 열을 지정해야 합니다."], validatedMembers: null };
+    }
+    const positionColumn = mappings.indexOf('position');
+    const phoneColumn = mappings.indexOf('phone');
+
+    const validatedMembers: Member[] = [];
+    rows.forEach((row, i) => {
+        const rowNumber = i + 2; // the header is row 1
+        if (row.every(cell => !cell || !cell.trim())) return;
+
+        const name = (row[nameColumn] || '').trim();
+        if (!name) {
+            errors.push(`${rowNumber}행에 '이름'이 없습니다.`);
+            return;
+        }
+        const position = positionColumn >= 0 ? (row[positionColumn] || '').trim() || '성도' : '성도';
+        if (!POSITIONS.includes(position as Position)) {
+            errors.push(`${rowNumber}행(${name})의 '직분' 값이 유효하지 않습니다: ${position}`);
+            return;
+        }
+
+        let attendance: Member['attendance'] = {};
+        let rowValid = true;
+        mappings.forEach((mapping, column) => {
+            if (!mapping.startsWith('date:')) return;
+            const date = mapping.slice(5);
+            const status = parseAttendanceCell(row[column] || '');
+            if (status === null) {
+                errors.push(`${rowNumber}행(${name})의 '${date}' 날짜의 출석 데이터('${row[column]}')가 올바르지 않습니다.`);
+                rowValid = false;
+            } else if (status) {
+                attendance = updateAttendance(attendance, date, serviceId, status);
+            }
+        });
+        const profile: MemberProfile = {};
+        PROFILE_COLUMNS.forEach(key => {
+            const column = mappings.indexOf(key);
+            if (column < 0) return;
+            const value = parseProfileCell(key, row[column] || '');
+            if (value === null) {
+                errors.push(`${rowNumber}행(${name})의 '${PROFILE_FIELD_LABELS[key]}' 값이 올바르지 않습니다: ${row[column]}`);
+                rowValid = false;
+            } else {
+                Object.assign(profile, { [key]: value });
+            }
+        });
+        if (!rowValid) return;
+
+        const phone = phoneColumn >= 0 ? (row[phoneColumn] || '').trim() : '';
+        // Rows have no ids of their own; negative ones never match a member's id when merging.
+        validatedMembers.push(withProfile({
+            id: -(validatedMembers.length + 1),
+            name,
+            position: position as Position,
+            phone: formatPhoneNumber(phone) ?? phone,
+            attendance,
+        }, profile));
+    });
+
+    if (errors.length > 0) {
+        return { isValid: false, errors, validatedMembers: null };
+    }
+    if (validatedMembers.length === 0) {
+        return { isValid: false, errors: ['가져올 교인 데이터가 없습니다.'], validatedMembers: null };
+    }
+    return { isValid: true, errors: [], validatedMembers };
+};
+
+const SpreadsheetExportModal: FC<{ members: Member[]; services: ServiceType[]; heldServices: HeldServices; specialDays: SpecialDay[]; defaultServiceId: string; defaultYear: number; onClose: () => void; }> = ({ members, services, heldServices, specialDays, defaultServiceId, defaultYear, onClose }) => {
+    const [kind, setKind] = useState<'matrix' | 'roster'>('matrix');
+    const [format, setFormat] = useState<SpreadsheetFormat>('xlsx');
+    const [serviceId, setServiceId] = useState(defaultServiceId);
+    const [rangeMode, setRangeMode] = useState<'year' | 'range'>('year');
+    const [exportYear, setExportYear] = useState(defaultYear);
+    const [from, setFrom] = useState(`${defaultYear}-01-01`);
+    const [to, setTo] = useState(getTodayString());
+
+    useEffect(() => {
+        const handleEsc = (event: KeyboardEvent) => {
+           if (event.key === 'Escape') {
+              onClose();
+           }
+        };
+        window.addEventListener('keydown', handleEsc);
+        return () => window.removeEventListener('keydown', handleEsc);
+    }, [onClose]);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (members.length === 0) {
+            alert('내보낼 데이터가 없습니다.');
+            return;
+        }
+        if (kind === 'roster') {
+            downloadSpreadsheet(buildRosterRows(members), format, `교인명단_${getTodayString()}`, '교인명단');
+            onClose();
+            return;
+        }
+        const service = services.find(s => s.id === serviceId) || services[0];
+        const [rangeFrom, rangeTo] = rangeMode === 'year' ? [`${exportYear}-01-01`, `${exportYear}-12-31`] : [from, to];
+        if (!rangeFrom || !rangeTo || rangeFrom > rangeTo) {
+            alert('기간을 올바르게 입력해주세요.');
+            return;
+        }
+        const label = rangeMode === 'year' ? `${exportYear}` : `${rangeFrom}_${rangeTo}`;
+        downloadSpreadsheet(buildAttendanceMatrixRows(members, service, heldServices, specialDays, rangeFrom, rangeTo), format, `출석표_${service.name}_${label}`, service.name);
+        onClose();
+    };
+
+    return (
+        <div className="modal-overlay" onClick={onClose} role="dialog" aria-modal="true" aria-labelledby="export-modal-title">
+            <div className="modal-content" onClick={e => e.stopPropagation()}>
+                <header className="modal-header">
+                    <h2 id="export-modal-title">엑셀/CSV 내보내기</h2>
+                    <button className="btn-close" onClick={onClose} aria-label="닫기">&times;</button>
+                </header>
+                <form onSubmit={handleSubmit} className="modal-body">
+                    <div className="form-group">
+                        <label>내용</label>
+                        <div className="filter-buttons">
+                            <button type="button" className={`btn ${kind === 'matrix' ? 'active' : ''}`} onClick={() => setKind('matrix')}>출석표 (교인 × 날짜)</button>
+                            <button type="button" className={`btn ${kind === 'roster' ? 'active' : ''}`} onClick={() => setKind('roster')}>교인 명단만</button>
+                        </div>
+                    </div>
+                    <div className="form-group">
+                        <label>파일 형식</label>
+                        <div className="filter-buttons">
+                            <button type="button" className={`btn ${format === 'xlsx' ? 'active' : ''}`} onClick={() => setFormat('xlsx')}>엑셀 (.xlsx)</button>
+                            <button type="button" className={`btn ${format === 'csv' ? 'active' : ''}`} onClick={() => setFormat('csv')}>CSV (.csv)</button>
+                        </div>
+                    </div>
+                    {kind === 'matrix' && (
+                        <>
+                            <div className="form-group">
+                                <label htmlFor="export-service">예배</label>
+                                <select id="export-service" value={serviceId} onChange={e => setServiceId(e.target.value)}>
+                                    {services.map(service => <option key={service.id} value={service.id}>{service.name}</option>)}
+                                </select>
+                            </div>
+                            <div className="form-group">
+                                <label>기간</label>
+                                <div className="filter-buttons">
+                                    <button type="button" className={`btn ${rangeMode === 'year' ? 'active' : ''}`} onClick={() => setRangeMode('year')}>연도</button>
+                                    <button type="button" className={`btn ${rangeMode === 'range' ? 'active' : ''}`} onClick={() => setRangeMode('range')}>기간 지정</button>
+                                </div>
+                            </div>
+                            {rangeMode === 'year' ? (
+                                <div className="form-group">
+                                    <label htmlFor="export-year">연도</label>
+                                    <input type="number" id="export-year" value={exportYear} onChange={e => setExportYear(Number(e.target.value))} min={2000} max={2100} />
+                                </div>
+                            ) : (
+                                <div className="form-group form-row">
+                                    <input type="date" value={from} onChange={e => setFrom(e.target.value)} aria-label="시작일" />
+                                    <span>~</span>
+                                    <input type="date" value={to} onChange={e => setTo(e.target.value)} aria-label="종료일" />
+                                </div>
+                            )}
+                        </>
+                    )}
+                    <footer className="modal-footer">
+                        <button type="button" className="btn" onClick={onClose}>취소</button>
+                        <button type="submit" className="btn btn-primary">내보내기</button>
+                    </footer>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+const MAPPING_LABELS: Record<Exclude<ColumnMapping, `date:${string}`>, string> = {
+    ignore: '가져오지 않음', name: '이름', position: '직분', phone: '전화번호',
+    ...Object.fromEntries(PROFILE_COLUMNS.map(key => [key, PROFILE_FIELD_LABELS[key]])) as Record<ProfileColumn, string>,
+};
+
+const SpreadsheetImportModal: FC<{ services: ServiceType[]; defaultServiceId: string; defaultYear: number; onImport: (members: Member[]) => void; onCancel: () => void; }> = ({ services, defaultServiceId, defaultYear, onImport, onCancel }) => {
+    const [fileName, setFileName] = useState('');
+    const [rows, setRows] = useState<string[][]>([]);
+    const [mappings, setMappings] = useState<ColumnMapping[]>([]);
+    const [serviceId, setServiceId] = useState(defaultServiceId);
+    const [errors, setErrors] = useState<string[]>([]);
+
+    useEffect(() => {
+        const handleEsc = (event: KeyboardEvent) => {
+           if (event.key === 'Escape') {
+              onCancel();
+           }
+        };
+        window.addEventListener('keydown', handleEsc);
+        return () => window.removeEventListener('keydown', handleEsc);
+    }, [onCancel]);
+
+    const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
+        setErrors([]);
+        try {
+            const parsedRows = /\.xlsx$/i.test(file.name) ? await parseXlsx(await file.arrayBuffer()) : parseCsv(await file.text());
+            if (parsedRows.length < 2) {
+                throw new Error("첫 행의 제목과 한 행 이상의 데이터가 필요합니다.");
+            }
+            setFileName(file.name);
+            setRows(parsedRows);
+            setMappings(parsedRows[0].map(header => guessColumnMapping(header, defaultYear)));
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : "알 수 없는 오류가 발생했습니다.";
+            console.error("스프레드시트 읽기 실패:", error);
+            setRows([]);
+            setErrors([errorMessage]);
+        }
+    };
+
+    const handleMappingChange = (column: number, value: string) => {
+        setMappings(prev => prev.map((mapping, i) => {
+            if (i === column) return value as ColumnMapping;
+            // Name, position and phone can each be mapped to one column only.
+            return !value.startsWith('date:') && value !== 'ignore' && mapping === value ? 'ignore' : mapping;
+        }));
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const { isValid, errors: validationErrors, validatedMembers } = validateSpreadsheetRows(rows.slice(1), mappings, serviceId);
+        if (!isValid || !validatedMembers) {
+            setErrors(validationErrors);
+            return;
+        }
+        onImport(validatedMembers);
+    };
+
+    const headers = rows[0] || [];
+    const dateColumnCount = mappings.filter(m => m.startsWith('date:')).length;
+
+    return (
+        <div className="modal-overlay" onClick={onCancel} role="dialog" aria-modal="true" aria-labelledby="import-modal-title">
+            <div className="modal-content modal-content-large" onClick={e => e.stopPropagation()}>
+                <header className="modal-header">
+                    <h2 id="import-modal-title">엑셀/CSV 가져오기</h2>
+                    <button className="btn-close" onClick={onCancel} aria-label="닫기">&times;</button>
+                </header>
+                <form onSubmit={handleSubmit} className="modal-body">
+                    <div className="form-group">
+                        <label htmlFor="import-file">파일 선택 (.xlsx, .csv)</label>
+                        <input type="file" id="import-file" accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" onChange={handleFileChange} />
+                        <p className="form-hint">첫 행은 제목(이름, 직분, 전화번호, 날짜)이어야 합니다. 날짜 열에는 출석/결석 또는 O/X를 입력하세요.</p>
+                    </div>
+                    {headers.length > 0 && (
+                        <>
+                            <p className="form-hint">{fileName} · 데이터 {rows.length - 1}행 · 날짜 열 {dateColumnCount}개</p>
+                            <div className="form-group">
+                                <label htmlFor="import-service">날짜 열의 출석을 기록할 예배</label>
+                                <select id="import-service" value={serviceId} onChange={e => setServiceId(e.target.value)}>
+                                    {services.map(service => <option key={service.id} value={service.id}>{service.name}</option>)}
+                                </select>
+                            </div>
+                            <div className="table-container column-mapping">
+                                <table className="member-table">
+                                    <thead>
+                                        <tr><th>파일의 열</th><th>예시 값</th><th>가져올 항목</th></tr>
+                                    </thead>
+                                    <tbody>
+                                        {headers.map((header, column) => {
+                                            const headerDate = normalizeHeaderDate(header, defaultYear);
+                                            return (
+                                                <tr key={column}>
+                                                    <td>{header || `(${columnName(column)}열)`}</td>
+                                                    <td>{rows[1]?.[column] || ''}</td>
+                                                    <td>
+                                                        <select value={mappings[column]} onChange={e => handleMappingChange(column, e.target.value)} aria-label={`${header} 열 매핑`}>
+                                                            {Object.entries(MAPPING_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                                                            {headerDate && <option value={`date:${headerDate}`}>출석 ({headerDate})</option>}
+                                                        </select>
+                                                    </td>
+                                                </tr>
+                                            );
+                                        })}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </>
+                    )}
+                    {errors.length > 0 && (
+                        <div className="import-errors" role="alert">
+                            <strong>❌ {errors.length}개의 오류를 수정한 뒤 다시 시도해주세요.</strong>
+                            <ul>
+                                {errors.slice(0, 50).map((error, i) => <li key={i}>{error}</li>)}
+                                {errors.length > 50 && <li>외 {errors.length - 50}건</li>}
+                            </ul>
+                        </div>
+                    )}
+                    <footer className="modal-footer">
+                        <button type="button" className="btn" onClick={onCancel}>취소</button>
+                        <button type="submit" className="btn btn-primary" disabled={headers.length === 0}>가져오기</button>
+                    </footer>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+interface PendingImport {
+  source: string;
+  members: Member[];
+  repairs: DateKeyRepair[];
+  services?: ServiceType[]; // current services plus those the backup adds, applied with the import
+  groups?: MemberGroup[];
+  visitors?: Visitor[]; // the backup's visitors; replaced or merged by id along with the members
+  specialDays?: SpecialDay[]; // the backup's settings; replaced, or added where missing, along with the members
+  awardThresholds?: AwardThresholds; // only taken over by a replacing import
+  messageTemplates?: MessageTemplate[];
+}
+
+const MergeImportModal: FC<{ pending: PendingImport; currentMembers: Member[]; services: ServiceType[]; onApply: (members: Member[], mode: 'merge' | 'replace') => void; onCancel: () => void; }> = ({ pending, currentMembers, services, onApply, onCancel }) => {
+    const [confirmedIds, setConfirmedIds] = useState<Set<number>>(new Set());
+    const plan = useMemo(() => planMergeImport(currentMembers, pending.members, confirmedIds), [currentMembers, pending.members, confirmedIds]);
+    const [useIncoming, setUseIncoming] = useState<Set<string>>(new Set());
+    const invalidPhones = useMemo(() => pending.members.filter(m => getPhoneError(m.phone)), [pending.members]);
+    // Matched members are the same person by definition, so only newly added ones are checked:
+    // against the current roster and against the other new members before them.
+    const duplicates = useMemo(() => plan.added.flatMap((member, i) =>
+        findDuplicateMembers(member, [...currentMembers, ...plan.added.slice(0, i)]).map(({ member: existing, reason }) => ({ incoming: member, existing, reason }))
+    ), [plan.added, currentMembers]);
+
+    useEffect(() => {
+        const handleEsc = (event: KeyboardEvent) => {
+           if (event.key === 'Escape') {
+              onCancel();
+           }
+        };
+        window.addEventListener('keydown', handleEsc);
+        return () => window.removeEventListener('keydown', handleEsc);
+    }, [onCancel]);
+
+    const choose = (key: string, incoming: boolean) => {
+        setUseIncoming(prev => {
+            const next = new Set(prev);
+            if (incoming) next.add(key); else next.delete(key);
+            return next;
+        });
+    };
+
+    const confirmIdMatch = (incomingId: number, confirmed: boolean) => {
+        setConfirmedIds(prev => {
+            const next = new Set(prev);
+            if (confirmed) next.add(incomingId); else next.delete(incomingId);
+            return next;
+        });
+    };
+
+    const handleReplace = () => {
+        if (window.confirm(`⚠️ 경고: 현재 앱에 저장된 모든 데이터를 가져온 ${pending.members.length}명의 데이터로 덮어씁니다.\n\n계속하시겠습니까?`)) {
+            onApply(assignMissingIds(pending.members), 'replace');
+        }
+    };
+
+    const describeConflict = (conflict: MergeConflict) => {
+        if (conflict.kind === 'attendance') {
+            return `${conflict.date} ${services.find(s => s.id === conflict.serviceId)?.name || conflict.serviceId}`;
+        }
+        return conflict.kind === 'name' ? '이름' : conflict.kind === 'phone' ? '전화번호' : conflict.kind === 'excuse' ? '기간 사유' : '직분';
+    };
+
+    return (
+        <div className="modal-overlay" onClick={onCancel} role="dialog" aria-modal="true" aria-labelledby="merge-modal-title">
+            <div className="modal-content modal-content-large" onClick={e => e.stopPropagation()}>
+                <header className="modal-header">
+                    <h2 id="merge-modal-title">데이터 가져오기 · 병합</h2>
+                    <button className="btn-close" onClick={onCancel} aria-label="닫기">&times;</button>
+                </header>
+                <div className="modal-body">
+                    <p className="form-hint">{pending.source} · {pending.members.length}명</p>
+                    {pending.repairs.length > 0 && (
+                        <p className="form-hint">📅 하루 앞당겨 저장된 출석 기록 {pending.repairs.length}건을 올바른 날짜로 보정했습니다.</p>
+                    )}
+                    <div className="stats-grid merge-summary">
+                        <div><strong>새로 추가</strong><span>{plan.added.length}명</span></div>
+                        <div><strong>기록 추가</strong><span>{plan.updated.length}명 ({plan.updated.reduce((sum, u) => sum + u.newRecords, 0)}건)</span></div>
+                        <div><strong>변경 없음</strong><span>{plan.unchangedCount}명</span></div>
+                        <div><strong>충돌</strong><span>{plan.conflicts.length}건</span></div>
+                    </div>
+                    {plan.added.length > 0 && (
+                        <details className="merge-details">
+                            <summary>새로 추가될 교인 {plan.added.length}명</summary>
+                            <p>{plan.added.map(m => m.name).join(', ')}</p>
+                        </details>
+                    )}
+                    {(invalidPhones.length > 0 || duplicates.length > 0) && (
+                        <div className="duplicate-warning" role="status">
+                            <strong>⚠️ 확인이 필요한 교인</strong>
+                            <ul>
+                                {invalidPhones.map(m => <li key={`phone-${m.id}`}>{m.name}: 전화번호 형식이 올바르지 않습니다 ({m.phone})</li>)}
+                                {duplicates.map(({ incoming, existing, reason }) => (
+                                    <li key={`${incoming.id}-${existing.id}`}>{incoming.name} ({incoming.phone || '전화번호 없음'}) ↔ {existing.name} ({existing.phone || '전화번호 없음'}) · {reason}</li>
+                                ))}
+                            </ul>
+                            <span className="form-hint">가져온 뒤 '교인 정보 수정'이나 '중복 교인 병합'으로 정리할 수 있습니다.</span>
+                        </div>
+                    )}
+                    {plan.idMatches.length > 0 && (
+                        <div className="duplicate-warning" role="status">
+                            <strong>⚠️ 번호는 같지만 이름이 다른 교인</strong>
+                            <ul>
+                                {plan.idMatches.map(({ incoming, existing }) => (
+                                    <li key={incoming.id}>
+                                        <label className="merge-choice">
+                                            <input type="checkbox" checked={confirmedIds.has(incoming.id)} onChange={e => confirmIdMatch(incoming.id, e.target.checked)} />
+                                            가져온 {incoming.name} ({incoming.phone || '전화번호 없음'}) → 현재 {existing.name} ({existing.phone || '전화번호 없음'})에 병합
+                                        </label>
+                                    </li>
+                                ))}
+                            </ul>
+                            <span className="form-hint">같은 사람인 경우에만 체크하세요. 체크하지 않으면 새 교인으로 추가됩니다.</span>
+                        </div>
+                    )}
+                    {plan.conflicts.length > 0 && (
+                        <div className="merge-conflicts">
+                            <div className="merge-conflicts-header">
+                                <h4>충돌 해결</h4>
+                                <div className="filter-buttons">
+                                    <button type="button" className="btn" onClick={() => setUseIncoming(new Set())}>모두 현재 값 유지</button>
+                                    <button type="button" className="btn" onClick={() => setUseIncoming(new Set(plan.conflicts.map(c => c.key)))}>모두 가져온 값 사용</button>
+                                </div>
+                            </div>
+                            <div className="table-container">
+                                <table className="member-table">
+                                    <thead>
+                                        <tr><th>교인</th><th>항목</th><th>현재 값</th><th>가져온 값</th></tr>
+                                    </thead>
+                                    <tbody>
+                                        {plan.conflicts.map(conflict => (
+                                            <tr key={conflict.key}>
+                                                <td>{conflict.memberName}</td>
+                                                <td>{describeConflict(conflict)}</td>
+                                                <td>
+                                                    <label className="merge-choice">
+                                                        <input type="radio" name={conflict.key} checked={!useIncoming.has(conflict.key)} onChange={() => choose(conflict.key, false)} />
+                                                        {conflict.current}
+                                                    </label>
+                                                </td>
+                                                <td>
+                                                    <label className="merge-choice">
+                                                        <input type="radio" name={conflict.key} checked={useIncoming.has(conflict.key)} onChange={() => choose(conflict.key, true)} />
+                                                        {conflict.incoming}
+                                                    </label>
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </div>
+                    )}
+                </div>
+                <footer className="modal-footer">
+                    <button type="button" className="btn btn-delete merge-replace" onClick={handleReplace}>전체 덮어쓰기</button>
+                    <button type="button" className="btn" onClick={onCancel}>취소</button>
+                    <button type="button" className="btn btn-primary" onClick={() => onApply(applyMergePlan(plan, useIncoming), 'merge')}>병합 적용</button>
+                </footer>
+            </div>
+        </div>
+    );
+};
+
+type PrintSheetKind = 'weekly' | 'monthly';
+
+// Printing uses the browser's own dialog (which can also save a PDF) and fonts installed on the computer,
+// so sheets print correctly without a network connection.
+const PrintSheetModal: FC<{ members: Member[]; services: ServiceType[]; heldServices: HeldServices; specialDays: SpecialDay[]; positionFilter: string; initialServiceId: string; initialDate: string; onClose: () => void; }> = ({ members, services, heldServices, specialDays, positionFilter, initialServiceId, initialDate, onClose }) => {
+    const [kind, setKind] = useState<PrintSheetKind>('weekly');
+    const [serviceId, setServiceId] = useState(initialServiceId);
+    const [date, setDate] = useState(initialDate);
+    const [month, setMonth] = useState(initialDate.slice(0, 7));
+
+    useEffect(() => {
+        const handleEsc = (event: KeyboardEvent) => {
+           if (event.key === 'Escape') {
+              onClose();
+           }
+        };
+        window.addEventListener('keydown', handleEsc);
+        return () => window.removeEventListener('keydown', handleEsc);
+    }, [onClose]);
+
+    // While open, print output is limited to the sheet (see the print styles).
+    useEffect(() => {
+        document.body.classList.add('print-sheet-open');
+        return () => document.body.classList.remove('print-sheet-open');
+    }, []);
+
+    const service = services.find(s => s.id === serviceId) || services[0];
+    const sheetMembers = useMemo(() => members
+        .filter(member => matchesMemberFilters(member, { positionFilter, membershipFilter: ACTIVE_MEMBERS_FILTER }))
+        .sort((a, b) => POSITIONS.indexOf(a.position) - POSITIONS.indexOf(b.position) || a.name.localeCompare(b.name, 'ko')),
+    [members, positionFilter]);
+    const byPosition = useMemo(() => POSITIONS
+        .map(position => ({ position, members: sheetMembers.filter(m => m.position === position) }))
+        .filter(group => group.members.length > 0),
+    [sheetMembers]);
+
+    const [sheetYear, sheetMonth] = month.split('-').map(Number);
+    const monthDates = useMemo(() => {
+        if (!sheetYear || !sheetMonth) return [];
+        const cancelledDates = findCancelledDates(specialDays);
+        return generateYearlyServiceDays(sheetYear, service.dayOfWeek)[sheetMonth - 1].sundays.map(toDateString).filter(day => !cancelledDates.has(day));
+    }, [sheetYear, sheetMonth, service.dayOfWeek, specialDays]);
+    const monthlyRows = useMemo(() => sheetMembers.map(member => ({
+        member,
+        statuses: monthDates.map(day => getEffectiveStatus(member, day, service.id)),
+        ...tallyHeldService(member, heldServices, service.id, `${month}-01`, `${month}-31`),
+    })), [sheetMembers, monthDates, heldServices, service.id, month]);
+
+    const filterLabel = positionFilter === ALL_FILTER ? '전체 직분' : positionFilter;
+    const dateLabel = (day: string) => `${Number(day.slice(5, 7))}/${Number(day.slice(8))}`;
+    const isWeeklyReady = kind === 'weekly' && /^\d{4}-\d{2}-\d{2}$/.test(date);
+    const isMonthlyReady = kind === 'monthly' && monthDates.length > 0;
+
+    return (
+        <div className="modal-overlay print-sheet-overlay" onClick={onClose} role="dialog" aria-modal="true" aria-labelledby="print-modal-title">
+            <div className="modal-content modal-content-large print-sheet-modal" onClick={e => e.stopPropagation()}>
+                <header className="modal-header">
+                    <h2 id="print-modal-title">출석부 인쇄</h2>
+                    <button className="btn-close" onClick={onClose} aria-label="닫기">&times;</button>
+                </header>
+                <div className="modal-body">
+                    <div className="print-sheet-controls">
+                        <div className="filter-buttons">
+                            <button type="button" className={`btn ${kind === 'weekly' ? 'active' : ''}`} onClick={() => setKind('weekly')}>주일 체크표</button>
+                            <button type="button" className={`btn ${kind === 'monthly' ? 'active' : ''}`} onClick={() => setKind('monthly')}>월간 출석부</button>
+                        </div>
+                        <select value={service.id} onChange={e => setServiceId(e.target.value)} aria-label="예배 선택">
+                            {services.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                        </select>
+                        {kind === 'weekly'
+                            ? <input type="date" value={date} onChange={e => setDate(e.target.value)} aria-label="날짜" />
+                            : <input type="month" value={month} onChange={e => setMonth(e.target.value)} aria-label="월" />}
+                    </div>
+                    <p className="form-hint">직분 필터({filterLabel})가 적용된 활동 교인 {sheetMembers.length}명이 인쇄됩니다. 인쇄 창에서 'PDF로 저장'을 고르면 PDF 파일로 저장할 수 있습니다.</p>
+
+                    {isWeeklyReady && (
+                        <div className="print-sheet print-sheet-weekly">
+                            <h3 className="print-sheet-title">{Number(date.slice(0, 4))}년 {Number(date.slice(5, 7))}월 {Number(date.slice(8))}일 {service.name} 출석 체크표</h3>
+                            <p className="print-sheet-subtitle">{filterLabel} · {sheetMembers.length}명</p>
+                            {byPosition.map(group => (
+                                <section key={group.position} className="print-sheet-section">
+                                    <h4>{group.position} ({group.members.length}명)</h4>
+                                    <table>
+                                        <thead>
+                                            <tr><th className="print-col-number">번호</th><th>이름</th><th className="print-col-check">출석</th><th className="print-col-check">결석</th><th>비고</th></tr>
+                                        </thead>
+                                        <tbody>
+                                            {group.members.map((member, i) => (
+                                                <tr key={member.id}>
+                                                    <td className="print-col-number">{i + 1}</td>
+                                                    <td>{member.name}</td>
+                                                    <td className="print-col-check">□</td>
+                                                    <td className="print-col-check">□</td>
+                                                    <td></td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </section>
+                            ))}
+                            <p className="print-sheet-footer">출석 ______명 &nbsp; 결석 ______명 &nbsp; 확인자 ______________</p>
+                        </div>
+                    )}
+
+                    {isMonthlyReady && (
+                        <div className="print-sheet print-sheet-monthly">
+                            <h3 className="print-sheet-title">{sheetYear}년 {sheetMonth}월 {service.name} 출석부</h3>
+                            <p className="print-sheet-subtitle">{filterLabel} · {sheetMembers.length}명 · {ATTENDANCE_STATUSES.map(status => `${ATTENDANCE_MARKS[status]} ${status}`).join(' ')}</p>
+                            <table>
+                                <thead>
+                                    <tr>
+                                        <th className="print-col-number">번호</th><th>이름</th><th>직분</th>
+                                        {monthDates.map(day => <th key={day} className="print-col-check">{dateLabel(day)}</th>)}
+                                        <th className="print-col-check">출석</th><th className="print-col-check">출석률</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {monthlyRows.map(({ member, statuses, present, marked }, i) => (
+                                        <tr key={member.id}>
+                                            <td className="print-col-number">{i + 1}</td>
+                                            <td>{member.name}</td>
+                                            <td>{member.position}</td>
+                                            {statuses.map((status, j) => <td key={monthDates[j]} className="print-col-check">{status ? ATTENDANCE_MARKS[status] : ''}</td>)}
+                                            <td className="print-col-check">{present}</td>
+                                            <td className="print-col-check">{formatRate({ present, marked })}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                                <tfoot>
+                                    <tr>
+                                        <th colSpan={3}>출석 인원</th>
+                                        {monthDates.map((day, j) => <th key={day} className="print-col-check">{monthlyRows.filter(row => isPresentStatus(row.statuses[j])).length}</th>)}
+                                        <th className="print-col-check">{monthlyRows.reduce((sum, row) => sum + row.present, 0)}</th>
+                                        <th></th>
+                                    </tr>
+                                </tfoot>
+                            </table>
+                        </div>
+                    )}
+                    {kind === 'monthly' && !isMonthlyReady && <p className="no-members">해당 월에 {service.name} 날짜가 없습니다.</p>}
+                </div>
+                <footer className="modal-footer">
+                    <button type="button" className="btn" onClick={onClose}>닫기</button>
+                    <button type="button" className="btn btn-primary" onClick={() => window.print()} disabled={!isWeeklyReady && !isMonthlyReady}>인쇄</button>
+                </footer>
+            </div>
+        </div>
+    );
+};
+
+// 개근 allows no unexcused absence; both awards allow up to the given number of excused Sundays (병결 등).
+interface AwardThresholds {
+  perfectMaxExcused: number;
+  nearPerfectMaxAbsences: number;
+  nearPerfectMaxExcused: number;
+}
+
+const DEFAULT_AWARD_THRESHOLDS: AwardThresholds = { perfectMaxExcused: 2, nearPerfectMaxAbsences: 3, nearPerfectMaxExcused: 4 };
+
+const AWARD_KINDS = ['개근', '정근'] as const;
+type AwardKind = typeof AWARD_KINDS[number];
+
+interface AwardResult {
+  member: Member;
+  present: number;
+  absent: number;
+  excused: number;
+  award: AwardKind | null;
+}
+
+// Judged over the year's held Sundays (see findHeldSundays); a Sunday counts as attended if any Sunday service was.
+// Sundays before a member's counting start aren't absences, but only members counted all year can receive an award.
+const computeAttendanceAwards = (members: Member[], services: ServiceType[], allHeldSundays: string[], year: number, thresholds: AwardThresholds) => {
+    const sundayServiceIds = getSundayServiceIds(services);
+    const heldSundays = allHeldSundays.filter(date => date.startsWith(`${year}-`));
+    const results: AwardResult[] = members
+        .filter(isActiveMember)
+        .sort((a, b) => POSITIONS.indexOf(a.position) - POSITIONS.indexOf(b.position) || a.name.localeCompare(b.name, 'ko'))
+        .map(member => {
+            const counts = { present: 0, absent: 0, excused: 0 };
+            const countedSundays = getCountedSundays(member, heldSundays, sundayServiceIds);
+            countedSundays.forEach(date => counts[getSundayOutcome(member, date, sundayServiceIds)]++);
+            const award = heldSundays.length === 0 || countedSundays.length < heldSundays.length ? null
+                : counts.absent === 0 && counts.excused <= thresholds.perfectMaxExcused ? '개근'
+                : counts.absent <= thresholds.nearPerfectMaxAbsences && counts.excused <= thresholds.nearPerfectMaxExcused ? '정근'
+                : null;
+            return { member, ...counts, award };
+        });
+    const byPosition = POSITIONS
+        .map(position => {
+            const ofPosition = results.filter(result => result.member.position === position);
+            const present = ofPosition.reduce((sum, result) => sum + result.present, 0);
+            const counted = ofPosition.reduce((sum, result) => sum + result.present + result.absent, 0);
+            return {
+                position,
+                memberCount: ofPosition.length,
+                perfect: ofPosition.filter(result => result.award === '개근').length,
+                nearPerfect: ofPosition.filter(result => result.award === '정근').length,
+                rate: counted > 0 ? present / counted : null,
+            };
+        })
+        .filter(summary => summary.memberCount > 0);
+    return { heldSundays, results, byPosition };
+};
+
+const AttendanceAwardsModal: FC<{
+    members: Member[];
+    services: ServiceType[];
+    heldSundays: string[];
+    initialYear: number;
+    thresholds: AwardThresholds;
+    onThresholdsChange: (thresholds: AwardThresholds) => void;
+    onClose: () => void;
+}> = ({ members, services, heldSundays, initialYear, thresholds, onThresholdsChange, onClose }) => {
+    const [year, setYear] = useState(initialYear);
+
+    useEffect(() => {
+        const handleEsc = (event: KeyboardEvent) => {
+           if (event.key === 'Escape') {
+              onClose();
+           }
+        };
+        window.addEventListener('keydown', handleEsc);
+        return () => window.removeEventListener('keydown', handleEsc);
+    }, [onClose]);
+
+    // While open, print output is limited to the certificate list (see the print styles).
+    useEffect(() => {
+        document.body.classList.add('print-sheet-open');
+        return () => document.body.classList.remove('print-sheet-open');
+    }, []);
+
+    const today = getTodayString();
+    const report = useMemo(() => computeAttendanceAwards(members, services, heldSundays, year, thresholds), [members, services, heldSundays, year, thresholds]);
+    const isInProgress = year >= parseDateString(today).getFullYear();
+    // Results are already ordered by position, so each list reads position by position.
+    const awardGroups = AWARD_KINDS.map(kind => {
+        const results = report.results.filter(result => result.award === kind);
+        return { kind, results, total: results.length };
+    });
+
+    const setThreshold = (key: keyof AwardThresholds, value: string) => {
+        const parsed = Math.max(0, Math.floor(Number(value) || 0));
+        onThresholdsChange({ ...thresholds, [key]: parsed });
+    };
+
+    const handleExport = (format: SpreadsheetFormat) => {
+        const rows: SpreadsheetCell[][] = [
+            ['구분', '직분', '이름', '출석', '결석', '사유', '출석률'],
+            ...report.results.filter(result => result.award).map(({ member, present, absent, excused, award }) => [
+                award!, member.position, member.name, present, absent, excused, present + absent > 0 ? `${((present / (present + absent)) * 100).toFixed(0)}%` : '',
+            ]),
+            [],
+            ['직분', '인원', '개근', '정근', '평균 출석률'],
+            ...report.byPosition.map(summary => [summary.position, summary.memberCount, summary.perfect, summary.nearPerfect, summary.rate === null ? '' : `${(summary.rate * 100).toFixed(0)}%`]),
+        ];
+        downloadSpreadsheet(rows, format, `개근정근_${year}`, `${year}년 시상`);
+    };
+
+    return (
+        <div className="modal-overlay print-sheet-overlay" onClick={onClose} role="dialog" aria-modal="true" aria-labelledby="awards-modal-title">
+            <div className="modal-content modal-content-large print-sheet-modal" onClick={e => e.stopPropagation()}>
+                <header className="modal-header">
+                    <h2 id="awards-modal-title">개근·정근 시상 보고서</h2>
+                    <button className="btn-close" onClick={onClose} aria-label="닫기">&times;</button>
+                </header>
+                <div className="modal-body">
+                    <div className="print-sheet-controls awards-controls">
+                        <label>연도 <input type="number" value={year} onChange={e => setYear(Number(e.target.value) || initialYear)} min={2000} max={2100} /></label>
+                        <label>개근 허용 사유 <input type="number" min={0} value={thresholds.perfectMaxExcused} onChange={e => setThreshold('perfectMaxExcused', e.target.value)} />회</label>
+                        <label>정근 허용 결석 <input type="number" min={0} value={thresholds.nearPerfectMaxAbsences} onChange={e => setThreshold('nearPerfectMaxAbsences', e.target.value)} />회</label>
+                        <label>정근 허용 사유 <input type="number" min={0} value={thresholds.nearPerfectMaxExcused} onChange={e => setThreshold('nearPerfectMaxExcused', e.target.value)} />회</label>
+                    </div>
+                    <p className="form-hint">
+                        {year}년 주일 중 출결이 입력된 {report.heldSundays.length}주를 기준으로, 활동 교인의 주일 출석(주일 예배 중 하나라도 출석)을 집계합니다.
+                        개근은 결석 없이 사유 결석(병결·출장/여행·군복무)이 {thresholds.perfectMaxExcused}회 이하, 정근은 결석 {thresholds.nearPerfectMaxAbsences}회·사유 {thresholds.nearPerfectMaxExcused}회 이하입니다.
+                        {isInProgress && ' 아직 끝나지 않은 해는 지금까지의 주일만 집계됩니다.'}
+                    </p>
+
+                    {report.heldSundays.length === 0 ? (
+                        <p className="no-members">{year}년에 주일 출결이 입력된 날이 없습니다.</p>
+                    ) : (
+                        <div className="print-sheet awards-sheet">
+                            <h3 className="print-sheet-title">{year}년 개근·정근 시상 명단</h3>
+                            <p className="print-sheet-subtitle">집계 주일 {report.heldSundays.length}주 · 개근 {awardGroups[0].total}명 · 정근 {awardGroups[1].total}명</p>
+                            {awardGroups.map(({ kind, results, total }) => (
+                                <section key={kind} className="print-sheet-section">
+                                    <h4>{kind}상 ({total}명)</h4>
+                                    {total === 0 ? <p className="no-members">해당하는 교인이 없습니다.</p> : (
+                                        <table>
+                                            <thead>
+                                                <tr><th className="print-col-number">번호</th><th>직분</th><th>이름</th><th className="print-col-check">출석</th><th className="print-col-check">결석</th><th className="print-col-check">사유</th><th>비고</th></tr>
+                                            </thead>
+                                            <tbody>
+                                                {results.map(({ member, present, absent, excused }, i) => (
+                                                    <tr key={member.id}>
+                                                        <td className="print-col-number">{i + 1}</td>
+                                                        <td>{member.position}</td>
+                                                        <td>{member.name}</td>
+                                                        <td className="print-col-check">{present}</td>
+                                                        <td className="print-col-check">{absent}</td>
+                                                        <td className="print-col-check">{excused}</td>
+                                                        <td></td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    )}
+                                </section>
+                            ))}
+                            <section className="print-sheet-section">
+                                <h4>직분별 요약</h4>
+                                <table>
+                                    <thead>
+                                        <tr><th>직분</th><th className="print-col-check">인원</th><th className="print-col-check">개근</th><th className="print-col-check">정근</th><th className="print-col-check">평균 출석률</th></tr>
+                                    </thead>
+                                    <tbody>
+                                        {report.byPosition.map(summary => (
+                                            <tr key={summary.position}>
+                                                <td>{summary.position}</td>
+                                                <td className="print-col-check">{summary.memberCount}</td>
+                                                <td className="print-col-check">{summary.perfect}</td>
+                                                <td className="print-col-check">{summary.nearPerfect}</td>
+                                                <td className="print-col-check">{summary.rate === null ? '-' : `${(summary.rate * 100).toFixed(0)}%`}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                    <tfoot>
+                                        <tr>
+                                            <th>합계</th>
+                                            <th className="print-col-check">{report.results.length}</th>
+                                            <th className="print-col-check">{awardGroups[0].total}</th>
+                                            <th className="print-col-check">{awardGroups[1].total}</th>
+                                            <th></th>
+                                        </tr>
+                                    </tfoot>
+                                </table>
+                            </section>
+                        </div>
+                    )}
+                </div>
+                <footer className="modal-footer">
+                    <button type="button" className="btn" onClick={onClose}>닫기</button>
+                    <button type="button" className="btn" onClick={() => handleExport('xlsx')} disabled={report.heldSundays.length === 0}>엑셀로 저장</button>
+                    <button type="button" className="btn" onClick={() => handleExport('csv')} disabled={report.heldSundays.length === 0}>CSV로 저장</button>
+                    <button type="button" className="btn btn-primary" onClick={() => window.print()} disabled={report.heldSundays.length === 0}>인쇄</button>
+                </footer>
+            </div>
+        </div>
+    );
+};
+
+const MemberMergeModal: FC<{ members: Member[]; onMerge: (targetId: number, sourceId: number, rule: MemberMergeRule) => void; onClose: () => void; }> = ({ members, onMerge, onClose }) => {
+    const [targetId, setTargetId] = useState<number | ''>('');
+    const [sourceId, setSourceId] = useState<number | ''>('');
+    const [rule, setRule] = useState<MemberMergeRule>('present');
+
+    useEffect(() => {
+        const handleEsc = (event: KeyboardEvent) => {
+           if (event.key === 'Escape') {
+              onClose();
+           }
+        };
+        window.addEventListener('keydown', handleEsc);
+        return () => window.removeEventListener('keydown', handleEsc);
+    }, [onClose]);
+
+    const sortedMembers = useMemo(() => [...members].sort((a, b) => a.name.localeCompare(b.name, 'ko') || a.id - b.id), [members]);
+    const suggestions = useMemo(() => sortedMembers.flatMap((member, i) =>
+        findDuplicateMembers(member, sortedMembers.slice(0, i)).map(({ member: other, reason }) => ({ first: other, second: member, reason }))
+    ), [sortedMembers]);
+
+    const target = members.find(m => m.id === targetId);
+    const source = members.find(m => m.id === sourceId);
+    const preview = useMemo(() => {
+        if (!target || !source || target.id === source.id) return null;
+        let copied = 0;
+        let conflicts = 0;
+        flattenAttendance(source.attendance).forEach(({ date, serviceId, status }) => {
+            const existing = getAttendanceStatus(target, date, serviceId);
+            if (existing === undefined) copied++;
+            else if (existing !== status) conflicts++;
+        });
+        return { copied, conflicts, total: flattenAttendance(mergeMemberRecords(target, source, rule).attendance).length };
+    }, [target, source, rule]);
+
+    // The member with the longer history is kept by default.
+    const pickPair = (a: Member, b: Member) => {
+        const [keep, drop] = flattenAttendance(a.attendance).length >= flattenAttendance(b.attendance).length ? [a, b] : [b, a];
+        setTargetId(keep.id);
+        setSourceId(drop.id);
+    };
+
+    const handleMerge = () => {
+        if (!target || !source || !preview) return;
+        if (window.confirm(`${source.name}(${source.phone || '전화번호 없음'})님의 기록을 ${target.name}(${target.phone || '전화번호 없음'})님에게 합치고, ${source.name}님 항목은 명단에서 삭제합니다.\n\n병합 후에도 '되돌리기'로 되돌릴 수 있습니다. 계속하시겠습니까?`)) {
+            onMerge(target.id, source.id, rule);
+        }
+    };
+
+    const describe = (member: Member) => `${member.name} (${member.position}, ${member.phone || '전화번호 없음'}, 출석 기록 ${flattenAttendance(member.attendance).length}건)`;
+
+    return (
+        <div className="modal-overlay" onClick={onClose} role="dialog" aria-modal="true" aria-labelledby="member-merge-modal-title">
+            <div className="modal-content modal-content-large" onClick={e => e.stopPropagation()}>
+                <header className="modal-header">
+                    <h2 id="member-merge-modal-title">중복 교인 병합</h2>
+                    <button className="btn-close" onClick={onClose} aria-label="닫기">&times;</button>
+                </header>
+                <div className="modal-body">
+                    <h4>중복 의심 교인</h4>
+                    {suggestions.length === 0 ? (
+                        <p className="no-members">이름이나 전화번호가 겹치는 교인이 없습니다.</p>
+                    ) : (
+                        <ul className="member-merge-suggestions">
+                            {suggestions.map(({ first, second, reason }) => (
+                                <li key={`${first.id}-${second.id}`}>
+                                    <span>{first.name} ({first.phone || '전화번호 없음'}) ↔ {second.name} ({second.phone || '전화번호 없음'}) · {reason}</span>
+                                    <button type="button" className="btn btn-edit" onClick={() => pickPair(first, second)}>선택</button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                    <div className="member-merge-pick">
+                        <div className="form-group">
+                            <label htmlFor="merge-target">남길 교인</label>
+                            <select id="merge-target" value={targetId} onChange={e => setTargetId(e.target.value ? Number(e.target.value) : '')}>
+                                <option value="">선택하세요</option>
+                                {sortedMembers.map(m => <option key={m.id} value={m.id}>{describe(m)}</option>)}
+                            </select>
+                        </div>
+                        <button type="button" className="btn" onClick={() => { setTargetId(sourceId); setSourceId(targetId); }} aria-label="남길 교인과 합칠 교인 바꾸기">⇅</button>
+                        <div className="form-group">
+                            <label htmlFor="merge-source">합칠 교인 (병합 후 삭제)</label>
+                            <select id="merge-source" value={sourceId} onChange={e => setSourceId(e.target.value ? Number(e.target.value) : '')}>
+                                <option value="">선택하세요</option>
+                                {sortedMembers.map(m => <option key={m.id} value={m.id}>{describe(m)}</option>)}
+                            </select>
+                        </div>
+                    </div>
+                    {target && source && target.id === source.id && <p className="form-error">서로 다른 두 교인을 선택해주세요.</p>}
+                    {preview && (
+                        <>
+                            <div className="form-group">
+                                <label>같은 날 두 기록이 다를 때</label>
+                                <label className="merge-choice">
+                                    <input type="radio" name="merge-rule" checked={rule === 'present'} onChange={() => setRule('present')} />
+                                    출석으로 기록
+                                </label>
+                                <label className="merge-choice">
+                                    <input type="radio" name="merge-rule" checked={rule === 'target'} onChange={() => setRule('target')} />
+                                    남길 교인의 기록 유지
+                                </label>
+                            </div>
+                            <div className="stats-grid merge-summary">
+                                <div><strong>옮겨오는 기록</strong><span>{preview.copied}건</span></div>
+                                <div><strong>서로 다른 기록</strong><span>{preview.conflicts}건</span></div>
+                                <div><strong>병합 후 출석 기록</strong><span>{preview.total}건</span></div>
+                            </div>
+                            <p className="form-hint">심방 기록과 소그룹은 합쳐지고, 비어 있는 교적 정보는 합칠 교인의 정보로 채워집니다. 전화번호와 직분은 남길 교인의 것을 유지합니다.</p>
+                        </>
+                    )}
+                </div>
+                <footer className="modal-footer">
+                    <button type="button" className="btn" onClick={onClose}>취소</button>
+                    <button type="button" className="btn btn-primary" onClick={handleMerge} disabled={!preview}>병합</button>
+                </footer>
+            </div>
+        </div>
+    );
+};
+
+// --- Storage (IndexedDB). Members and change-log entries are stored one record each so edits write only what changed. ---
+
+const MEMBERS_STORE = 'members';
+const SETTINGS_STORE = 'settings';
+const CHANGE_LOG_STORE = 'changeLog';
+const SNAPSHOTS_STORE = 'snapshots';
+const VISITORS_STORE = 'visitors';
+
+interface StoredSettings {
+  services: ServiceType[];
+  groups: MemberGroup[];
+  messageTemplates: MessageTemplate[];
+  absenteeThreshold: number;
+  awardThresholds: AwardThresholds;
+  specialDays: SpecialDay[];
+  editorName: string;
+}
+
+interface StoredData {
+  db: IDBDatabase | null;
+  members: Member[];
+  visitors: Visitor[];
+  changeLog: ChangeLogEntry[];
+  settings: StoredSettings;
+  repairs: DateKeyRepair[];
+  storageError: string | null;
+}
+
+interface MigrationReport {
+  repairs: DateKeyRepair[];
+  migratedFromLocalStorage: boolean;
+}
+
+interface SchemaMigration {
+  version: number;
+  description: string;
+  upgrade: (db: IDBDatabase, transaction: IDBTransaction, report: MigrationReport) => void;
+}
+
+const DEFAULT_SETTINGS: StoredSettings = { services: DEFAULT_SERVICES, groups: [], messageTemplates: DEFAULT_MESSAGE_TEMPLATES, absenteeThreshold: DEFAULT_ABSENTEE_THRESHOLD, awardThresholds: DEFAULT_AWARD_THRESHOLDS, specialDays: [], editorName: '' };
+
+// Reads everything the app kept in localStorage before the IndexedDB backend, applying the older in-place migrations.
+const loadLegacyLocalStorageData = (): { members: Member[]; changeLog: ChangeLogEntry[]; settings: StoredSettings; repairs: DateKeyRepair[] } => {
+    const services = loadServices();
+    const savedThreshold = Number(window.localStorage.getItem(ABSENTEE_THRESHOLD_STORAGE_KEY));
+    const settings: StoredSettings = {
+        services,
+        groups: [],
+        messageTemplates: DEFAULT_MESSAGE_TEMPLATES,
+        absenteeThreshold: savedThreshold > 0 ? savedThreshold : DEFAULT_ABSENTEE_THRESHOLD,
+        awardThresholds: DEFAULT_AWARD_THRESHOLDS,
+        specialDays: [],
+        editorName: window.localStorage.getItem(EDITOR_NAME_STORAGE_KEY) || '',
+    };
+    try {
+        const savedMembersRaw = window.localStorage.getItem(LOCAL_STORAGE_KEY);
+        if (!savedMembersRaw) {
+            return { members: initialMembers, changeLog: loadChangeLog(), settings, repairs: [] };
+        }
+        let parsedMembers = JSON.parse(savedMembersRaw);
+        // Simple migration for old data structure
+        if (parsedMembers.length > 0 && parsedMembers[0].status !== undefined) {
+             const today = getTodayString();
+             parsedMembers = parsedMembers.map((member: any) => {
+                const newMember = { ...member, attendance: {} };
+                if (member.status) {
+                    newMember.attendance[today] = member.status;
+                }
+                delete newMember.status;
+                return newMember;
+            });
+        }
+        parsedMembers = parsedMembers.map((member: any) => ({ ...member, attendance: migrateAttendance(member.attendance || {}, services) }));
+        const { members, repairs } = repairShiftedDateKeys(parsedMembers, services);
+        return { members, changeLog: loadChangeLog(), settings, repairs };
+    } catch (error) {
+        console.error("Could not load members from localStorage", error);
+        return { members: initialMembers, changeLog: [], settings, repairs: [] };
+    }
+};
+
+// Applied in order inside the version-change transaction; add a new entry (and bump DB_SCHEMA_VERSION) for every schema change.
+const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+    {
+        version: 1,
+        description: '교인, 설정, 변경 기록 저장소 생성',
+        upgrade: db => {
+            db.createObjectStore(MEMBERS_STORE, { keyPath: 'id' });
+            db.createObjectStore(SETTINGS_STORE);
+            db.createObjectStore(CHANGE_LOG_STORE, { keyPath: 'id' });
+        },
+    },
+    {
+        version: 2,
+        description: '기존 localStorage 데이터 이전',
+        upgrade: (_db, transaction, report) => {
+            const legacy = loadLegacyLocalStorageData();
+            const membersStore = transaction.objectStore(MEMBERS_STORE);
+            legacy.members.forEach(member => membersStore.put(member));
+            const changeLogStore = transaction.objectStore(CHANGE_LOG_STORE);
+            legacy.changeLog.forEach(entry => changeLogStore.put(entry));
+            const settingsStore = transaction.objectStore(SETTINGS_STORE);
+            (Object.keys(legacy.settings) as (keyof StoredSettings)[]).forEach(key => settingsStore.put(legacy.settings[key], key));
+            report.repairs = legacy.repairs;
+            report.migratedFromLocalStorage = window.localStorage.getItem(LOCAL_STORAGE_KEY) !== null;
+        },
+    },
+    {
+        version: 3,
+        description: '자동 스냅샷 저장소 생성',
+        upgrade: db => {
+            db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id' });
+        },
+    },
+    {
+        version: 4,
+        description: '방문자 저장소 생성',
+        upgrade: db => {
+            db.createObjectStore(VISITORS_STORE, { keyPath: 'id' });
+        },
+    },
+    {
+        version: 5,
+        description: '새가족 등록 연결을 방문자에서 교인으로 이동',
+        upgrade: (_db, transaction) => {
+            const visitorsStore = transaction.objectStore(VISITORS_STORE);
+            const membersStore = transaction.objectStore(MEMBERS_STORE);
+            const request = visitorsStore.getAll() as IDBRequest<(Visitor & { promotedMemberId?: number })[]>;
+            request.onsuccess = () => request.result.forEach(({ promotedMemberId, ...visitor }) => {
+                if (promotedMemberId === undefined) return;
+                visitorsStore.put(visitor);
+                const memberRequest = membersStore.get(promotedMemberId) as IDBRequest<Member | undefined>;
+                memberRequest.onsuccess = () => {
+                    const member = memberRequest.result;
+                    if (member && member.visitorId === undefined) membersStore.put({ ...member, visitorId: visitor.id });
+                };
+            });
+        },
+    },
+];
+
+const requestToPromise = <T,>(request: IDBRequest<T>) =>
+    new Promise<T>((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const transactionDone = (transaction: IDBTransaction) =>
+    new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error || new DOMException('Transaction aborted', 'AbortError'));
+    });
+
+// `blocked` only means another tab still holds an older version open: the open goes through once that tab
+// closes, so it is reported through onBlocked and the promise keeps waiting instead of failing.
+const openDatabase = (onBlocked: () => void) =>
+    new Promise<{ db: IDBDatabase; report: MigrationReport }>((resolve, reject) => {
+        const report: MigrationReport = { repairs: [], migratedFromLocalStorage: false };
+        const request = window.indexedDB.open(DB_NAME, DB_SCHEMA_VERSION);
+        request.onupgradeneeded = event => {
+            const transaction = request.transaction!;
+            SCHEMA_MIGRATIONS
+                .filter(migration => migration.version > event.oldVersion && migration.version <= DB_SCHEMA_VERSION)
+                .forEach(migration => migration.upgrade(request.result, transaction, report));
+        };
+        request.onsuccess = () => {
+            const db = request.result;
+            // Let a newer version opened in another tab upgrade instead of blocking it in turn.
+            db.onversionchange = () => {
+                db.close();
+                alert('다른 탭에서 새 버전의 출석부가 열렸습니다. 이 탭을 새로고침해주세요.');
+            };
+            resolve({ db, report });
+        };
+        request.onerror = () => reject(request.error);
+        request.onblocked = onBlocked;
+    });
+
+const readAllStoredData = async (db: IDBDatabase) => {
+    const transaction = db.transaction([MEMBERS_STORE, VISITORS_STORE, SETTINGS_STORE, CHANGE_LOG_STORE], 'readonly');
+    const settingsStore = transaction.objectStore(SETTINGS_STORE);
+    const [members, visitors, changeLog, settingKeys, settingValues] = await Promise.all([
+        requestToPromise(transaction.objectStore(MEMBERS_STORE).getAll() as IDBRequest<Member[]>),
+        requestToPromise(transaction.objectStore(VISITORS_STORE).getAll() as IDBRequest<Visitor[]>),
+        requestToPromise(transaction.objectStore(CHANGE_LOG_STORE).getAll() as IDBRequest<ChangeLogEntry[]>),
+        requestToPromise(settingsStore.getAllKeys()),
+        requestToPromise(settingsStore.getAll()),
+    ]);
+    const settings: StoredSettings = { ...DEFAULT_SETTINGS };
+    settingKeys.forEach((key, i) => Object.assign(settings, { [String(key)]: settingValues[i] }));
+    return { members, visitors, changeLog, settings };
+};
+
+const writeMembers = async (db: IDBDatabase, changed: Member[], removedIds: number[]) => {
+    const transaction = db.transaction(MEMBERS_STORE, 'readwrite');
+    const store = transaction.objectStore(MEMBERS_STORE);
+    changed.forEach(member => store.put(member));
+    removedIds.forEach(id => store.delete(id));
+    await transactionDone(transaction);
+};
+
+const writeVisitors = async (db: IDBDatabase, changed: Visitor[], removedIds: number[]) => {
+    const transaction = db.transaction(VISITORS_STORE, 'readwrite');
+    const store = transaction.objectStore(VISITORS_STORE);
+    changed.forEach(visitor => store.put(visitor));
+    removedIds.forEach(id => store.delete(id));
+    await transactionDone(transaction);
+};
+
+const writeChangeLog = async (db: IDBDatabase, added: ChangeLogEntry[], removedIds: number[]) => {
+    const transaction = db.transaction(CHANGE_LOG_STORE, 'readwrite');
+    const store = transaction.objectStore(CHANGE_LOG_STORE);
+    added.forEach(entry => store.put(entry));
+    removedIds.forEach(id => store.delete(id));
+    await transactionDone(transaction);
+};
+
+const writeSetting = async <K extends keyof StoredSettings>(db: IDBDatabase, key: K, value: StoredSettings[K]) => {
+    const transaction = db.transaction(SETTINGS_STORE, 'readwrite');
+    transaction.objectStore(SETTINGS_STORE).put(value, key);
+    await transactionDone(transaction);
+};
+
+interface Snapshot {
+  id: string; // 'daily-YYYY-MM-DD' or 'monthly-YYYY-MM'
+  kind: 'daily' | 'monthly';
+  createdAt: string; // ISO date-time
+  members: Member[];
+  services: ServiceType[];
+  groups?: MemberGroup[]; // absent in snapshots taken before groups existed
+  visitors?: Visitor[]; // absent in snapshots taken before visitors and the settings below were included
+  specialDays?: SpecialDay[];
+  awardThresholds?: AwardThresholds;
+  messageTemplates?: MessageTemplate[];
+}
+
+type SnapshotData = Required<Omit<Snapshot, 'id' | 'kind' | 'createdAt'>>;
+
+// Keeps one snapshot per day for the last DAILY_SNAPSHOT_COUNT days and one per month for the last
+// MONTHLY_SNAPSHOT_COUNT months. The first save of a day captures the data as it was before that day's edits.
+const takeRollingSnapshots = (db: IDBDatabase, data: SnapshotData, today: string) => {
+    const transaction = db.transaction(SNAPSHOTS_STORE, 'readwrite');
+    const store = transaction.objectStore(SNAPSHOTS_STORE);
+    const keysRequest = store.getAllKeys();
+    keysRequest.onsuccess = () => {
+        const keys = new Set(keysRequest.result.map(String));
+        const createdAt = new Date().toISOString();
+        const candidates: Snapshot[] = [
+            { id: `daily-${today}`, kind: 'daily', createdAt, ...data },
+            { id: `monthly-${today.slice(0, 7)}`, kind: 'monthly', createdAt, ...data },
+        ];
+        candidates.filter(snapshot => !keys.has(snapshot.id)).forEach(snapshot => {
+            store.put(snapshot);
+            keys.add(snapshot.id);
+        });
+        (['daily', 'monthly'] as const).forEach(kind => {
+            const keep = kind === 'daily' ? DAILY_SNAPSHOT_COUNT : MONTHLY_SNAPSHOT_COUNT;
+            Array.from(keys)
+                .filter(key => key.startsWith(`${kind}-`))
+                .sort()
+                .reverse()
+                .slice(keep)
+                .forEach(key => store.delete(key));
+        });
+    };
+    return transactionDone(transaction);
+};
+
+const readSnapshots = async (db: IDBDatabase) => {
+    const transaction = db.transaction(SNAPSHOTS_STORE, 'readonly');
+    const snapshots = await requestToPromise(transaction.objectStore(SNAPSHOTS_STORE).getAll() as IDBRequest<Snapshot[]>);
+    return snapshots.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+const countAttendanceRecords = (members: Member[]) =>
+    members.reduce((sum, member) => sum + flattenAttendance(member.attendance).length, 0);
+
+const describeStorageError = (error: unknown) => {
+    if (error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED')) {
+        return '브라우저 저장 공간이 부족하여 변경 내용을 저장하지 못했습니다. 지금 데이터를 파일로 백업한 뒤 브라우저 저장 공간을 확보해주세요.';
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return `변경 내용을 저장하지 못했습니다: ${message}. 데이터를 파일로 백업해주세요.`;
+};
+
+const loadStoredData = async (onBlocked: () => void): Promise<StoredData> => {
+    try {
+        const { db, report } = await openDatabase(onBlocked);
+        if (report.migratedFromLocalStorage) {
+            [LOCAL_STORAGE_KEY, SERVICES_STORAGE_KEY, ABSENTEE_THRESHOLD_STORAGE_KEY, CHANGE_LOG_STORAGE_KEY, EDITOR_NAME_STORAGE_KEY]
+                .forEach(key => window.localStorage.removeItem(key));
+        }
+        const { members, visitors, changeLog, settings } = await readAllStoredData(db);
+        members.sort((a, b) => a.name.localeCompare(b.name, 'ko'));
+        return { db, members, visitors, changeLog, settings, repairs: report.repairs, storageError: null };
+    } catch (error) {
+        // Without IndexedDB the app still shows whatever localStorage holds, but cannot save.
+        console.error("Could not open IndexedDB storage", error);
+        const legacy = loadLegacyLocalStorageData();
+        const message = error instanceof Error ? error.message : String(error);
+        return { db: null, ...legacy, visitors: [], storageError: `브라우저 저장소를 열 수 없어 변경 내용이 저장되지 않습니다 (${message}). 작업 후 반드시 파일로 백업해주세요.` };
+    }
+};
+
+const StorageBlockedNotice: FC = () => (
+    <section className="storage-error-banner" role="alert">
+        <span>⚠️ 다른 탭에서 이전 버전의 출석부가 열려 있어 데이터를 불러오지 못하고 기다리는 중입니다. 다른 탭을 닫으면 자동으로 이어서 열립니다.</span>
+    </section>
+);
+
+const StorageErrorBanner: FC<{ message: string; onBackup: () => void; onDismiss: () => void; }> = ({ message, onBackup, onDismiss }) => (
+    <section className="storage-error-banner" role="alert">
+        <span>⚠️ {message}</span>
+        <div className="storage-error-actions">
+            <button className="btn btn-save" onClick={onBackup}>파일로 백업</button>
+            <button className="btn" onClick={onDismiss}>닫기</button>
+        </div>
+    </section>
+);
+
+const SnapshotRestoreModal: FC<{ db: IDBDatabase | null; currentMembers: Member[]; services: ServiceType[]; groups: MemberGroup[]; onRestore: (snapshot: Snapshot) => void; onClose: () => void; }> = ({ db, currentMembers, services, groups, onRestore, onClose }) => {
+    const [snapshots, setSnapshots] = useState<Snapshot[] | null>(null);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [previewId, setPreviewId] = useState<string | null>(null);
+
+    useEffect(() => {
+        const handleEsc = (event: KeyboardEvent) => {
+           if (event.key === 'Escape') {
+              onClose();
+           }
+        };
+        window.addEventListener('keydown', handleEsc);
+        return () => window.removeEventListener('keydown', handleEsc);
+    }, [onClose]);
+
+    useEffect(() => {
+        if (!db) {
+            setLoadError('브라우저 저장소를 열 수 없어 스냅샷을 불러올 수 없습니다.');
+            return;
+        }
+        readSnapshots(db)
+            .then(setSnapshots)
+            .catch(error => {
+                console.error("Could not read snapshots", error);
+                setLoadError(describeStorageError(error));
+            });
+    }, [db]);
+
+    const preview = snapshots?.find(snapshot => snapshot.id === previewId) || null;
+    const previewDiff = useMemo(() => {
+        if (!preview) return null;
+        const entries = diffMembers(currentMembers, preview.members, '', '', [...services, ...preview.services], [...groups, ...(preview.groups || [])]);
+        const currentIds = new Set(currentMembers.map(m => m.id));
+        const snapshotIds = new Set(preview.members.map(m => m.id));
+        return {
+            entries,
+            restored: preview.members.filter(m => !currentIds.has(m.id)).length,
+            removed: currentMembers.filter(m => !snapshotIds.has(m.id)).length,
+            attendanceDelta: countAttendanceRecords(preview.members) - countAttendanceRecords(currentMembers),
+        };
+    }, [preview, currentMembers, services, groups]);
+
+    const handleRestore = (snapshot: Snapshot) => {
+        if (window.confirm(`${formatTimestamp(snapshot.createdAt)} 시점의 데이터로 복원하시겠습니까?\n\n복원 후에도 '되돌리기'로 현재 상태로 돌아올 수 있습니다.`)) {
+            onRestore(snapshot);
+        }
+    };
+
+    return (
+        <div className="modal-overlay" onClick={onClose} role="dialog" aria-modal="true" aria-labelledby="snapshot-modal-title">
+            <div className="modal-content modal-content-large" onClick={e => e.stopPropagation()}>
+                <header className="modal-header">
+                    <h2 id="snapshot-modal-title">자동 스냅샷 복원</h2>
+                    <button className="btn-close" onClick={onClose} aria-label="닫기">&times;</button>
+                </header>
+                <div className="modal-body">
+                    <p className="form-hint">최근 {DAILY_SNAPSHOT_COUNT}일은 하루 한 개, 최근 {MONTHLY_SNAPSHOT_COUNT}개월은 한 달에 한 개씩 자동으로 보관됩니다. 스냅샷은 그날 첫 작업 전의 상태입니다.</p>
+                    {loadError && <div className="import-errors" role="alert">{loadError}</div>}
+                    {!loadError && snapshots === null && <p className="no-members">불러오는 중...</p>}
+                    {snapshots && snapshots.length === 0 && <p className="no-members">아직 저장된 스냅샷이 없습니다.</p>}
+                    {snapshots && snapshots.length > 0 && (
+                        <div className="table-container">
+                            <table className="member-table">
+                                <thead>
+                                    <tr><th>시점</th><th>구분</th><th>교인</th><th>출석 기록</th><th></th></tr>
+                                </thead>
+                                <tbody>
+                                    {snapshots.map(snapshot => (
+                                        <tr key={snapshot.id} className={previewId === snapshot.id ? 'snapshot-selected' : ''}>
+                                            <td>{formatTimestamp(snapshot.createdAt)}</td>
+                                            <td>{snapshot.kind === 'daily' ? '일간' : '월간'}</td>
+                                            <td>{snapshot.members.length}명</td>
+                                            <td>{countAttendanceRecords(snapshot.members)}건</td>
+                                            <td className="snapshot-actions">
+                                                <button className="btn btn-edit" onClick={() => setPreviewId(previewId === snapshot.id ? null : snapshot.id)}>
+                                                    {previewId === snapshot.id ? '닫기' : '미리보기'}
+                                                </button>
+                                                <button className="btn btn-primary" onClick={() => handleRestore(snapshot)}>복원</button>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                    {preview && previewDiff && (
+                        <div className="snapshot-preview">
+                            <h4>{formatTimestamp(preview.createdAt)} 스냅샷과 현재 데이터 비교</h4>
+                            <div className="stats-grid merge-summary">
+                                <div><strong>되살아나는 교인</strong><span>{previewDiff.restored}명</span></div>
+                                <div><strong>사라지는 교인</strong><span>{previewDiff.removed}명</span></div>
+                                <div><strong>내용이 바뀌는 교인</strong><span>{previewDiff.entries.length}명</span></div>
+                                <div><strong>출석 기록 증감</strong><span>{previewDiff.attendanceDelta > 0 ? '+' : ''}{previewDiff.attendanceDelta}건</span></div>
+                            </div>
+                            {previewDiff.entries.length > 0 ? (
+                                <ul className="snapshot-diff-list">
+                                    {previewDiff.entries.map(entry => (
+                                        <li key={entry.memberId}>
+                                            <strong>{entry.memberName}</strong>
+                                            <ul className="change-log-details">
+                                                {entry.details.map((detail, i) => <li key={i}>{detail}</li>)}
+                                            </ul>
+                                        </li>
+                                    ))}
+                                </ul>
+                            ) : (
+                                <p className="form-hint">현재 데이터와 차이가 없습니다.</p>
+                            )}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+
+const App: FC<{ initialData: StoredData }> = ({ initialData }) => {
+    const db = initialData.db;
+    const [services, setServices] = useState<ServiceType[]>(initialData.settings.services);
+    const [groups, setGroups] = useState<MemberGroup[]>(initialData.settings.groups);
+    const [specialDays, setSpecialDays] = useState<SpecialDay[]>(initialData.settings.specialDays);
+    const [messageTemplates, setMessageTemplates] = useState<MessageTemplate[]>(initialData.settings.messageTemplates);
+    const [awardThresholds, setAwardThresholds] = useState<AwardThresholds>(initialData.settings.awardThresholds);
+    const [members, setMembers] = useState<Member[]>(initialData.members);
+    const [visitors, setVisitors] = useState<Visitor[]>(initialData.visitors);
+    const [dateRepairs, setDateRepairs] = useState<DateKeyRepair[]>(initialData.repairs);
+    const [storageError, setStorageError] = useState<string | null>(initialData.storageError);
+    const [undoStack, setUndoStack] = useState<HistoryStep[]>([]);
+    const [redoStack, setRedoStack] = useState<HistoryStep[]>([]);
+    const [changeLog, setChangeLog] = useState<ChangeLogEntry[]>(initialData.changeLog);
+    const [editorName, setEditorName] = useState<string>(initialData.settings.editorName);
+    // Mirrors `members` so consecutive edits before a re-render still diff against the latest roster.
+    const membersRef = useRef(members);
+    membersRef.current = members;
+    // The highest member id handed out this session, so an id freed by an undo is never given to someone else.
+    const lastMemberIdRef = useRef(Math.max(0, ...initialData.members.map(m => m.id)));
+    const allocateMemberId = useCallback((current: Member[]) => {
+        lastMemberIdRef.current = Math.max(lastMemberIdRef.current, ...current.map(m => m.id)) + 1;
+        return lastMemberIdRef.current;
+    }, []);
+    
+    const [saveStatus, setSaveStatus] = useState<'idle' | 'saved'>('idle');
+    const saveStatusTimeoutRef = useRef<number | null>(null);
+
+    useEffect(() => () => {
+        if (saveStatusTimeoutRef.current) {
+            clearTimeout(saveStatusTimeoutRef.current);
+        }
+    }, []);
+
+    const persist = useCallback((write: (database: IDBDatabase) => Promise<void>, showSaved = true) => {
+        if (!db) return;
+        write(db)
+            .then(() => {
+                if (!showSaved) return;
+                if (saveStatusTimeoutRef.current) {
+                    clearTimeout(saveStatusTimeoutRef.current);
+                }
+                setSaveStatus('saved');
+                saveStatusTimeoutRef.current = window.setTimeout(() => {
+                    setSaveStatus('idle');
+                }, 2000);
+            })
+            .catch(error => {
+                console.error("Could not save to IndexedDB", error);
+                setStorageError(describeStorageError(error));
+            });
+    }, [db]);
+
+    // The snapshot for a day is taken from the data as it was before that day's first change.
+    const lastSnapshotDateRef = useRef<string | null>(null);
+    const ensureSnapshots = useCallback((snapshotMembers: Member[]) => {
+        const today = getTodayString();
+        if (lastSnapshotDateRef.current === today) return;
+        lastSnapshotDateRef.current = today;
+        persist(database => takeRollingSnapshots(database, { members: snapshotMembers, services, groups, visitors, specialDays, awardThresholds, messageTemplates }, today), false);
+    }, [persist, services, groups, visitors, specialDays, awardThresholds, messageTemplates]);
+
+    // Runs once on load; later calls come from the save effects with the data they are about to overwrite.
+    const initialSnapshotRef = useRef(() => ensureSnapshots(initialData.members));
+    useEffect(() => {
+        initialSnapshotRef.current();
+    }, []);
+
+    // Writes only the members whose record object changed since the last save.
+    const persistedMembersRef = useRef(members);
+    useEffect(() => {
+        const prevMembers = persistedMembersRef.current;
+        persistedMembersRef.current = members;
+        if (prevMembers === members) return;
+        ensureSnapshots(prevMembers);
+        const prevById = new Map(prevMembers.map(m => [m.id, m]));
+        const nextIds = new Set(members.map(m => m.id));
+        const changed = members.filter(m => prevById.get(m.id) !== m);
+        const removedIds = prevMembers.filter(m => !nextIds.has(m.id)).map(m => m.id);
+        if (changed.length > 0 || removedIds.length > 0) {
+            persist(database => writeMembers(database, changed, removedIds));
+        }
+    }, [members, persist, ensureSnapshots]);
+
+    const persistedVisitorsRef = useRef(visitors);
+    useEffect(() => {
+        const prevVisitors = persistedVisitorsRef.current;
+        persistedVisitorsRef.current = visitors;
+        if (prevVisitors === visitors) return;
+        const prevById = new Map(prevVisitors.map(v => [v.id, v]));
+        const nextIds = new Set(visitors.map(v => v.id));
+        const changed = visitors.filter(v => prevById.get(v.id) !== v);
+        const removedIds = prevVisitors.filter(v => !nextIds.has(v.id)).map(v => v.id);
+        if (changed.length > 0 || removedIds.length > 0) {
+            persist(database => writeVisitors(database, changed, removedIds));
         }
-        validatedMembers.push(member as Member);
-    }
+    }, [visitors, persist]);
 
-    return { isValid: true, error: null, validatedMembers };
-};
+    const persistedChangeLogRef = useRef(changeLog);
+    useEffect(() => {
+        const prevLog = persistedChangeLogRef.current;
+        persistedChangeLogRef.current = changeLog;
+        if (prevLog === changeLog) return;
+        const lastPersistedId = prevLog.length > 0 ? prevLog[prevLog.length - 1].id : 0;
+        const firstKeptId = changeLog.length > 0 ? changeLog[0].id : Infinity;
+        const added = changeLog.filter(entry => entry.id > lastPersistedId);
+        const removedIds = prevLog.filter(entry => entry.id < firstKeptId).map(entry => entry.id);
+        persist(database => writeChangeLog(database, added, removedIds), false);
+    }, [changeLog, persist]);
 
+    const isInitialServices = useRef(true);
+    useEffect(() => {
+        if (isInitialServices.current) {
+            isInitialServices.current = false;
+            return;
+        }
+        persist(database => writeSetting(database, 'services', services));
+    }, [services, persist]);
 
-const App: FC = () => {
-    const [members, setMembers] = useState<Member[]>(() => {
-        try {
-            const savedMembersRaw = window.localStorage.getItem(LOCAL_STORAGE_KEY);
-            if (savedMembersRaw) {
-                let parsedMembers = JSON.parse(savedMembersRaw);
-                // Simple migration for old data structure
-                if (parsedMembers.length > 0 && parsedMembers[0].status !== undefined) {
-                     const today = getTodayString();
-                     parsedMembers = parsedMembers.map((member: any) => {
-                        const newMember = { ...member, attendance: {} };
-                        if (member.status) {
-                            newMember.attendance[today] = member.status;
-                        }
-                        delete newMember.status;
-                        return newMember;
-                    });
-                }
-                return parsedMembers.sort((a: Member, b: Member) => a.name.localeCompare(b.name, 'ko'));
-            }
-            return initialMembers;
-        } catch (error) {
-            console.error("Could not load members from localStorage", error);
-            return initialMembers;
+    const isInitialGroups = useRef(true);
+    useEffect(() => {
+        if (isInitialGroups.current) {
+            isInitialGroups.current = false;
+            return;
         }
-    });
-    
-    const [saveStatus, setSaveStatus] = useState<'idle' | 'saved'>('idle');
-    const saveStatusTimeoutRef = useRef<number | null>(null);
-    const isInitialMount = useRef(true);
+        persist(database => writeSetting(database, 'groups', groups));
+    }, [groups, persist]);
 
+    const isInitialSpecialDays = useRef(true);
     useEffect(() => {
-        try {
-            window.localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(members));
-            
-            if (isInitialMount.current) {
-                isInitialMount.current = false;
-                return;
-            }
+        if (isInitialSpecialDays.current) {
+            isInitialSpecialDays.current = false;
+            return;
+        }
+        persist(database => writeSetting(database, 'specialDays', specialDays));
+    }, [specialDays, persist]);
 
-            if (saveStatusTimeoutRef.current) {
-                clearTimeout(saveStatusTimeoutRef.current);
-            }
-            setSaveStatus('saved');
-            saveStatusTimeoutRef.current = window.setTimeout(() => {
-                setSaveStatus('idle');
-            }, 2000);
+    const isInitialMessageTemplates = useRef(true);
+    useEffect(() => {
+        if (isInitialMessageTemplates.current) {
+            isInitialMessageTemplates.current = false;
+            return;
+        }
+        persist(database => writeSetting(database, 'messageTemplates', messageTemplates));
+    }, [messageTemplates, persist]);
 
-        } catch (error) {
-            console.error("Could not save members to localStorage", error);
+    const isInitialEditorName = useRef(true);
+    useEffect(() => {
+        if (isInitialEditorName.current) {
+            isInitialEditorName.current = false;
+            return;
         }
-        
-        return () => {
-            if (saveStatusTimeoutRef.current) {
-                clearTimeout(saveStatusTimeoutRef.current);
+        persist(database => writeSetting(database, 'editorName', editorName), false);
+    }, [editorName, persist]);
+
+    const appendChangeLog = useCallback((entries: Omit<ChangeLogEntry, 'id'>[]) => {
+        if (entries.length === 0) return;
+        setChangeLog(prevLog => {
+            let nextId = (prevLog.length > 0 ? prevLog[prevLog.length - 1].id : 0) + 1;
+            return [...prevLog, ...entries.map(entry => ({ ...entry, id: nextId++ }))].slice(-MAX_CHANGE_LOG_ENTRIES);
+        });
+    }, []);
+
+    // Every edit to the roster goes through here so it can be undone and shows up in the change log.
+    const commitMembers = useCallback((action: string, updater: (prevMembers: Member[]) => Member[], groupsUpdater?: (prevGroups: MemberGroup[]) => MemberGroup[]) => {
+        const prevMembers = membersRef.current;
+        const nextMembers = updater(prevMembers);
+        if (nextMembers === prevMembers) return;
+        membersRef.current = nextMembers;
+        setMembers(nextMembers);
+        const nextGroups = groupsUpdater ? groupsUpdater(groups) : groups;
+        if (nextGroups !== groups) setGroups(nextGroups);
+        setUndoStack(stack => [...stack, { label: action, members: prevMembers, ...(nextGroups !== groups ? { groups } : {}) }].slice(-MAX_UNDO_STEPS));
+        setRedoStack([]);
+        appendChangeLog(diffMembers(prevMembers, nextMembers, action, editorName.trim(), services, groups));
+    }, [appendChangeLog, editorName, services, groups]);
+
+    const handleUndo = useCallback(() => {
+        const step = undoStack[undoStack.length - 1];
+        if (!step) return;
+        const prevMembers = membersRef.current;
+        membersRef.current = step.members;
+        setMembers(step.members);
+        if (step.groups) setGroups(step.groups);
+        setUndoStack(stack => stack.slice(0, -1));
+        setRedoStack(stack => [...stack, { label: step.label, members: prevMembers, ...(step.groups ? { groups } : {}) }]);
+        appendChangeLog(diffMembers(prevMembers, step.members, `되돌리기: ${step.label}`, editorName.trim(), services, groups));
+    }, [undoStack, appendChangeLog, editorName, services, groups]);
+
+    const handleRedo = useCallback(() => {
+        const step = redoStack[redoStack.length - 1];
+        if (!step) return;
+        const prevMembers = membersRef.current;
+        membersRef.current = step.members;
+        setMembers(step.members);
+        if (step.groups) setGroups(step.groups);
+        setRedoStack(stack => stack.slice(0, -1));
+        setUndoStack(stack => [...stack, { label: step.label, members: prevMembers, ...(step.groups ? { groups } : {}) }]);
+        appendChangeLog(diffMembers(prevMembers, step.members, `다시 실행: ${step.label}`, editorName.trim(), services, groups));
+    }, [redoStack, appendChangeLog, editorName, services, groups]);
+
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            const target = event.target as HTMLElement;
+            if (!(event.ctrlKey || event.metaKey) || target.closest('input, textarea, select')) return;
+            const key = event.key.toLowerCase();
+            if (key === 'z' && !event.shiftKey) {
+                event.preventDefault();
+                handleUndo();
+            } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+                event.preventDefault();
+                handleRedo();
             }
-        }
-    }, [members]);
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [handleUndo, handleRedo]);
 
-    const [positionFilter, setPositionFilter] = useState<string>(ALL_FILTER);
-    const [statusFilter, setStatusFilter] = useState<AttendanceStatus | typeof ALL_FILTER>(ALL_FILTER);
+    const [initialView] = useState(() => {
+        const view = readTableViewFromUrl();
+        const knownGroup = view.groupFilter === ALL_FILTER || view.groupFilter === NO_GROUP_FILTER || groups.some(g => g.id === view.groupFilter);
+        return knownGroup ? view : { ...view, groupFilter: ALL_FILTER };
+    });
+    const [positionFilter, setPositionFilter] = useState<string>(initialView.positionFilter);
+    const [statusFilter, setStatusFilter] = useState<AttendanceStatus | typeof ALL_FILTER>(initialView.statusFilter);
+    const [householdFilter, setHouseholdFilter] = useState<string>(initialView.householdFilter);
+    const [groupFilter, setGroupFilter] = useState<string>(initialView.groupFilter);
+    const [membershipFilter, setMembershipFilter] = useState<string>(initialView.membershipFilter);
+    const [groupByHousehold, setGroupByHousehold] = useState(initialView.groupByHousehold);
+    const [searchQuery, setSearchQuery] = useState(initialView.searchQuery);
+    const [sortKey, setSortKey] = useState<MemberSortKey>(initialView.sortKey);
+    const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>(initialView.sortDirection);
+    const [ratePeriod, setRatePeriod] = useState<RatePeriod>(initialView.ratePeriod);
+    const [pageSize, setPageSize] = useState(initialView.pageSize);
+    const [smsPerHousehold, setSmsPerHousehold] = useState(false);
     const [selectedMemberIds, setSelectedMemberIds] = useState<Set<number>>(new Set());
     const [editingMember, setEditingMember] = useState<Member | null>(null);
     const [viewingMember, setViewingMember] = useState<Member | null>(null);
     const [isAddModalOpen, setIsAddModalOpen] = useState(false);
-    const [viewingDate, setViewingDate] = useState<string>(getTodayString());
-    const [year, setYear] = useState(new Date().getFullYear());
-    const [currentPage, setCurrentPage] = useState(1);
+    const [route, setRoute] = useState<Route>(() => parseRoute(window.location.hash));
+    const routeRef = useRef(route);
+    routeRef.current = route;
+    const [viewingDate, setViewingDate] = useState<string>(() => getRouteDate(route) || getTodayString());
+    const [viewingServiceId, setViewingServiceId] = useState<string>(() => {
+        const todayDayOfWeek = new Date().getDay();
+        return (services.find(s => s.dayOfWeek === todayDayOfWeek) || services[0]).id;
+    });
+    const [isServiceSettingsOpen, setIsServiceSettingsOpen] = useState(false);
+    const activeView = route.view;
+    const routeMember = route.view === 'member' ? members.find(m => m.id === route.memberId) : undefined;
+    const [isGroupSettingsOpen, setIsGroupSettingsOpen] = useState(false);
+    const [isSpecialDaySettingsOpen, setIsSpecialDaySettingsOpen] = useState(false);
+    const [composer, setComposer] = useState<{ recipients: Member[]; initialBody?: string } | null>(null);
+    const [followUpMember, setFollowUpMember] = useState<Member | null>(null);
+    const [isSpreadsheetExportOpen, setIsSpreadsheetExportOpen] = useState(false);
+    const [isSpreadsheetImportOpen, setIsSpreadsheetImportOpen] = useState(false);
+    const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+    const [isSnapshotRestoreOpen, setIsSnapshotRestoreOpen] = useState(false);
+    const [isMemberMergeOpen, setIsMemberMergeOpen] = useState(false);
+    const [isPrintSheetOpen, setIsPrintSheetOpen] = useState(false);
+    const [bulkScope, setBulkScope] = useState<'selected' | 'filtered'>('selected');
+    const [absenteeThreshold, setAbsenteeThreshold] = useState<number>(initialData.settings.absenteeThreshold);
+
+    const isInitialThreshold = useRef(true);
+    useEffect(() => {
+        if (isInitialThreshold.current) {
+            isInitialThreshold.current = false;
+            return;
+        }
+        persist(database => writeSetting(database, 'absenteeThreshold', absenteeThreshold), false);
+    }, [absenteeThreshold, persist]);
+
+    const [isAwardsReportOpen, setIsAwardsReportOpen] = useState(false);
+
+    const isInitialAwardThresholds = useRef(true);
+    useEffect(() => {
+        if (isInitialAwardThresholds.current) {
+            isInitialAwardThresholds.current = false;
+            return;
+        }
+        persist(database => writeSetting(database, 'awardThresholds', awardThresholds), false);
+    }, [awardThresholds, persist]);
+    const [year, setYear] = useState(() => Number(viewingDate.slice(0, 4)));
+    const [currentPage, setCurrentPage] = useState(initialView.currentPage);
     const fileInputRef = useRef<HTMLInputElement>(null);
     
+    const viewingService = services.find(s => s.id === viewingServiceId) || services[0];
+
+    // Routes live in the hash so back/forward, bookmarks and reloads all work without a server.
+    const navigate = useCallback((next: Route) => {
+        const hash = buildRouteHash(next);
+        if (window.location.hash !== hash) {
+            window.location.hash = hash;
+        }
+    }, []);
+
+    useEffect(() => {
+        const handleHashChange = () => setRoute(parseRoute(window.location.hash));
+        window.addEventListener('hashchange', handleHashChange);
+        return () => window.removeEventListener('hashchange', handleHashChange);
+    }, []);
+
+    useEffect(() => {
+        if (route.view === 'member' || !DATED_VIEWS.includes(route.view)) return;
+        const date = getRouteDate(route) ?? getTodayString();
+        setViewingDate(date);
+        setYear(Number(date.slice(0, 4)));
+    }, [route]);
+
+    // On the dated views the selected date is part of the route, so picking a Sunday adds a history entry
+    // and a reload stays on that date.
+    useEffect(() => {
+        const current = routeRef.current;
+        if (current.view === 'member' || !DATED_VIEWS.includes(current.view) || !viewingDate || (getRouteDate(current) ?? getTodayString()) === viewingDate) return;
+        navigate({ view: current.view, date: viewingDate });
+    }, [viewingDate, navigate]);
+
+    useEffect(() => {
+        window.scrollTo(0, 0);
+    }, [route.view]);
+
+    const households = useMemo(() => getHouseholds(members), [members]);
+    const heldServices = useMemo(() => findHeldServices(members, services, specialDays), [members, services, specialDays]);
+
+    const memberRates = useMemo(() => {
+        const [from, to] = ratePeriod === 'month'
+            ? [`${(viewingDate || getTodayString()).slice(0, 7)}-01`, `${(viewingDate || getTodayString()).slice(0, 7)}-31`]
+            : [`${year}-01-01`, `${year}-12-31`];
+        return new Map(members.map(m => [m.id, getAttendanceRate(m, heldServices, viewingService.id, from, to)]));
+    }, [members, heldServices, ratePeriod, viewingDate, year, viewingService.id]);
+
     const filteredMembers = useMemo(() => {
-        return members.filter(member => {
-            const positionMatch = positionFilter === ALL_FILTER || member.position === positionFilter;
-            const statusMatch = statusFilter === ALL_FILTER || (member.attendance[viewingDate] || null) === statusFilter;
-            return positionMatch && statusMatch;
+        const matching = members.filter(member =>
+            matchesMemberFilters(member, { positionFilter, statusFilter, householdFilter, groupFilter, membershipFilter, date: viewingDate, serviceId: viewingService.id })
+            && matchesMemberSearch(member, searchQuery)
+        );
+        if (groupByHousehold) {
+            // Families are listed together in household order; members without a household follow.
+            const order = new Map<number, number>();
+            households.forEach(h => h.members.forEach(m => order.set(m.id, order.size)));
+            return [...matching].sort((a, b) => (order.get(a.id) ?? Infinity) - (order.get(b.id) ?? Infinity));
+        }
+        const direction = sortDirection === 'asc' ? 1 : -1;
+        return [...matching].sort((a, b) => {
+            const byName = a.name.localeCompare(b.name, 'ko');
+            if (sortKey === 'position') return direction * (POSITIONS.indexOf(a.position) - POSITIONS.indexOf(b.position)) || byName;
+            if (sortKey === 'rate') {
+                // Members with nothing marked in the period always go last.
+                const rateA = memberRates.get(a.id) ?? null;
+                const rateB = memberRates.get(b.id) ?? null;
+                if (rateA === null || rateB === null) return rateA === rateB ? byName : rateA === null ? 1 : -1;
+                return direction * (rateA - rateB) || byName;
+            }
+            return direction * byName;
         });
-    }, [members, positionFilter, statusFilter, viewingDate]);
+    }, [members, households, positionFilter, statusFilter, householdFilter, groupFilter, membershipFilter, searchQuery, groupByHousehold, sortKey, sortDirection, memberRates, viewingDate, viewingService.id]);
 
     const attendanceCounts = useMemo(() => {
-        const membersToCount = members.filter(member => {
-            return positionFilter === ALL_FILTER || member.position === positionFilter;
+        const membersToCount = members.filter(member => matchesMemberFilters(member, { positionFilter, householdFilter, groupFilter, membershipFilter }));
+
+        const byStatus = Object.fromEntries(ATTENDANCE_STATUSES.map(status => [status, 0])) as Record<AttendanceStatus, number>;
+        membersToCount.forEach(m => {
+            const status = getEffectiveStatus(m, viewingDate, viewingService.id);
+            if (status) byStatus[status]++;
         });
 
-        const present = membersToCount.filter(m => m.attendance[viewingDate] === '출석').length;
-        const absent = membersToCount.filter(m => m.attendance[viewingDate] === '결석').length;
-        const total = membersToCount.length;
-        
-        return { total, present, absent };
-    }, [members, positionFilter, viewingDate]);
+        return { total: membersToCount.length, byStatus };
+    }, [members, positionFilter, householdFilter, groupFilter, membershipFilter, viewingDate, viewingService.id]);
 
+    const visitorCount = useMemo(() => {
+        const registeredVisitorIds = findRegisteredVisitorIds(members);
+        return visitors.filter(v => isPendingVisitor(v, registeredVisitorIds) && hasVisited(v, viewingDate, viewingService.id)).length;
+    }, [visitors, members, viewingDate, viewingService.id]);
 
-    // Reset page to 1 when filters change
+    const heldSundays = useMemo(() => findHeldSundays(heldServices, services, getTodayString()), [heldServices, services]);
+    // The detail modal edits attendance, so it shows the member's latest record rather than the one it was opened with.
+    const detailMember = viewingMember && (members.find(m => m.id === viewingMember.id) || null);
+
+    const absentees = useMemo(
+        () => findLongTermAbsentees(members, services, heldSundays, absenteeThreshold),
+        [members, services, heldSundays, absenteeThreshold]
+    );
+
+    const usedServiceIds = useMemo(() => {
+        const ids = new Set<string>();
+        members.forEach(member => flattenAttendance(member.attendance).forEach(({ serviceId }) => ids.add(serviceId)));
+        return ids;
+    }, [members]);
+
+
+    // Reset page to 1 when filters change (but not on mount, so a page restored from the URL is kept)
+    const isInitialPageReset = useRef(true);
     useEffect(() => {
+        if (isInitialPageReset.current) {
+            isInitialPageReset.current = false;
+            return;
+        }
         setCurrentPage(1);
-    }, [positionFilter, statusFilter, viewingDate]);
+    }, [positionFilter, statusFilter, householdFilter, groupFilter, membershipFilter, groupByHousehold, searchQuery, sortKey, sortDirection, ratePeriod, pageSize, viewingDate, viewingService.id]);
+
+    useEffect(() => {
+        if (householdFilter !== ALL_FILTER && householdFilter !== NO_HOUSEHOLD_FILTER && !households.some(h => String(h.headId) === householdFilter)) {
+            setHouseholdFilter(ALL_FILTER);
+        }
+    }, [households, householdFilter]);
     
-    const totalPages = useMemo(() => Math.ceil(filteredMembers.length / ITEMS_PER_PAGE), [filteredMembers.length]);
+    const totalPages = useMemo(
+        () => (pageSize === SHOW_ALL_PAGE_SIZE ? 1 : Math.ceil(filteredMembers.length / pageSize)),
+        [filteredMembers.length, pageSize]
+    );
 
     const paginatedMembers = useMemo(() => {
-        const startIndex = (currentPage - 1) * ITEMS_PER_PAGE;
-        const endIndex = startIndex + ITEMS_PER_PAGE;
+        if (pageSize === SHOW_ALL_PAGE_SIZE) return filteredMembers;
+        const startIndex = (currentPage - 1) * pageSize;
+        const endIndex = startIndex + pageSize;
         return filteredMembers.slice(startIndex, endIndex);
-    }, [filteredMembers, currentPage]);
+    }, [filteredMembers, currentPage, pageSize]);
+
+    // A bookmarked page can point past the end once members are removed.
+    useEffect(() => {
+        if (totalPages > 0 && currentPage > totalPages) {
+            setCurrentPage(totalPages);
+        }
+    }, [currentPage, totalPages]);
+
+    useEffect(() => {
+        writeTableViewToUrl({ positionFilter, statusFilter, householdFilter, groupFilter, membershipFilter, groupByHousehold, searchQuery, sortKey, sortDirection, ratePeriod, pageSize, currentPage });
+    }, [positionFilter, statusFilter, householdFilter, groupFilter, membershipFilter, groupByHousehold, searchQuery, sortKey, sortDirection, ratePeriod, pageSize, currentPage]);
+
+    const handleSort = useCallback((key: MemberSortKey) => {
+        if (key === sortKey) {
+            setSortDirection(direction => (direction === 'asc' ? 'desc' : 'asc'));
+        } else {
+            setSortKey(key);
+            setSortDirection(key === 'rate' ? 'desc' : 'asc');
+        }
+    }, [sortKey]);
 
 
     const handleResetFilters = useCallback(() => {
         setPositionFilter(ALL_FILTER);
         setStatusFilter(ALL_FILTER);
+        setHouseholdFilter(ALL_FILTER);
+        setGroupFilter(ALL_FILTER);
+        setMembershipFilter(ACTIVE_MEMBERS_FILTER);
+        setSearchQuery('');
         setViewingDate(getTodayString());
         setYear(new Date().getFullYear());
     }, []);
 
-    const handleAttendanceChange = useCallback((id: number, date: string, newStatus: AttendanceStatus | '미정') => {
-        setMembers(prevMembers =>
+    const handleAttendanceChange = useCallback((id: number, date: string, serviceId: string, newStatus: AttendanceStatus | '미정') => {
+        commitMembers('출결 변경', prevMembers =>
             prevMembers.map(member => {
                 if (member.id === id) {
-                    const newAttendance = { ...member.attendance };
-                    if (newStatus === '미정') {
-                        delete newAttendance[date];
-                    } else {
-                        newAttendance[date] = newStatus;
-                    }
-                    return { ...member, attendance: newAttendance };
+                    return { ...member, attendance: updateAttendance(member.attendance, date, serviceId, newStatus) };
                 }
                 return member;
             })
         );
+    }, [commitMembers]);
+
+    const handleHouseholdAttendanceChange = useCallback((headId: number, date: string, serviceId: string, newStatus: AttendanceStatus) => {
+        commitMembers('가족 출결 변경', prevMembers =>
+            prevMembers.map(member =>
+                member.householdHeadId === headId ? { ...member, attendance: updateAttendance(member.attendance, date, serviceId, newStatus) } : member
+            )
+        );
+    }, [commitMembers]);
+
+    const handleServiceSelect = useCallback((serviceId: string) => {
+        const service = services.find(s => s.id === serviceId);
+        if (!service) return;
+        setViewingServiceId(serviceId);
+        // Move the selected date back to the closest day on which the chosen service is held.
+        if (getDayOfWeek(viewingDate) !== service.dayOfWeek) {
+            const date = parseDateString(viewingDate);
+            date.setDate(date.getDate() - ((date.getDay() - service.dayOfWeek + 7) % 7));
+            setViewingDate(toDateString(date));
+            setYear(date.getFullYear());
+        }
+    }, [services, viewingDate]);
+
+    const handleSaveServices = useCallback((updatedServices: ServiceType[]) => {
+        setServices(updatedServices);
+        if (!updatedServices.some(s => s.id === viewingServiceId)) {
+            setViewingServiceId(updatedServices[0].id);
+        }
+        setIsServiceSettingsOpen(false);
+    }, [viewingServiceId]);
+
+    const handleSaveSpecialDays = useCallback((updatedSpecialDays: SpecialDay[]) => {
+        setSpecialDays(updatedSpecialDays);
+        setIsSpecialDaySettingsOpen(false);
     }, []);
 
+    const handleSaveGroups = useCallback((updatedGroups: MemberGroup[]) => {
+        const groupIds = new Set(updatedGroups.map(g => g.id));
+        if (members.some(m => m.groupIds?.some(id => !groupIds.has(id)))) {
+            commitMembers('소그룹 삭제', prevMembers =>
+                prevMembers.map(m => (m.groupIds?.some(id => !groupIds.has(id)) ? { ...m, groupIds: m.groupIds.filter(id => groupIds.has(id)) } : m))
+            );
+        }
+        setGroups(updatedGroups);
+        if (groupFilter !== ALL_FILTER && groupFilter !== NO_GROUP_FILTER && !groupIds.has(groupFilter)) {
+            setGroupFilter(ALL_FILTER);
+        }
+        setIsGroupSettingsOpen(false);
+    }, [members, commitMembers, groupFilter]);
+
     const handleSelectionChange = useCallback((id: number) => {
         setSelectedMemberIds(prevSelected => {
             const newSelected = new Set(prevSelected);
@@ -487,38 +6326,132 @@ const App: FC = () => {
         });
     }, []);
     
-    const handleAddMember = useCallback((data: { name: string; position: Position; phone: string }) => {
-        setMembers(prevMembers => {
-            const newMember: Member = {
-                id: (prevMembers.length > 0 ? Math.max(...prevMembers.map(m => m.id)) : 0) + 1,
+    const handleAddMember = useCallback((data: { name: string; position: Position; phone: string; household: HouseholdChoice; groupIds: string[]; profile: MemberProfile }) => {
+        commitMembers('교인 추가', prevMembers => {
+            const newMember: Member = withProfile({
+                id: allocateMemberId(prevMembers),
                 name: data.name,
                 position: data.position,
                 phone: data.phone,
                 attendance: {},
-            };
-            const updatedMembers = [...prevMembers, newMember];
+                ...(data.groupIds.length > 0 ? { groupIds: data.groupIds } : {}),
+            }, data.profile);
+            const updatedMembers = assignHousehold([...prevMembers, newMember], newMember.id, data.household);
             updatedMembers.sort((a, b) => a.name.localeCompare(b.name, 'ko'));
             return updatedMembers;
         });
         setIsAddModalOpen(false);
-    }, []);
+    }, [commitMembers, allocateMemberId]);
     
-    const handleSaveMember = useCallback((updatedMemberData: Omit<Member, 'attendance'>) => {
-        setMembers(prevMembers =>
-            prevMembers.map(m => (m.id === updatedMemberData.id ? { ...m, ...updatedMemberData } : m))
+    const handleSaveMember = useCallback((updatedMemberData: Pick<Member, 'id' | 'name' | 'position' | 'phone' | 'groupIds'>, household: HouseholdChoice, profile: MemberProfile) => {
+        commitMembers('정보 수정', prevMembers =>
+            assignHousehold(
+                prevMembers.map(m => (m.id === updatedMemberData.id ? withProfile({ ...m, ...updatedMemberData }, profile) : m)),
+                updatedMemberData.id,
+                household
+            )
         );
         setEditingMember(null);
-    }, []);
+    }, [commitMembers]);
 
     const handleDeleteMember = useCallback((memberToDelete: Member) => {
-        if (window.confirm(`'${memberToDelete.name}' 교인을 정말로 삭제하시겠습니까? 이 작업은 되돌릴 수 없습니다.`)) {
-            setMembers(prevMembers => prevMembers.filter(m => m.id !== memberToDelete.id));
+        if (window.confirm(`'${memberToDelete.name}' 교인을 정말로 삭제하시겠습니까? 삭제 후에도 '되돌리기'로 복구할 수 있습니다.`)) {
+            commitMembers('교인 삭제', prevMembers =>
+                assignHousehold(prevMembers, memberToDelete.id, { headId: null, makeHead: false }).filter(m => m.id !== memberToDelete.id)
+            );
             setSelectedMemberIds(prev => {
                 const newSet = new Set(prev);
                 newSet.delete(memberToDelete.id);
                 return newSet;
             });
         }
+    }, [commitMembers]);
+
+    const handleAddFollowUp = useCallback((memberId: number, note: Omit<FollowUpNote, 'id'>) => {
+        commitMembers('심방 기록', prevMembers =>
+            prevMembers.map(m => {
+                if (m.id !== memberId) return m;
+                const followUps = m.followUps || [];
+                const id = (followUps.length > 0 ? Math.max(...followUps.map(f => f.id)) : 0) + 1;
+                return { ...m, followUps: [...followUps, { id, ...note }] };
+            })
+        );
+        setFollowUpMember(null);
+    }, [commitMembers]);
+
+    const handleAddVisitor = useCallback((visitor: Omit<Visitor, 'id'>) => {
+        setVisitors(prev => [...prev, { ...visitor, id: nextVisitorId(prev, membersRef.current) }]);
+    }, []);
+
+    const handleUpdateVisitor = useCallback((visitor: Visitor) => {
+        setVisitors(prev => prev.map(v => (v.id === visitor.id ? visitor : v)));
+    }, []);
+
+    const handleDeleteVisitor = useCallback((visitor: Visitor) => {
+        if (window.confirm(`방문자 '${visitor.name}'님의 기록(방문 ${visitor.visits.length}회)을 삭제하시겠습니까? 방문자 기록은 되돌리기로 복구되지 않습니다.`)) {
+            setVisitors(prev => prev.filter(v => v.id !== visitor.id));
+        }
+    }, []);
+
+    // Registers the visitor as a 새가족 member; each visit becomes an 출석 record and the 교육 progress carries over.
+    const handlePromoteVisitor = useCallback((visitor: Visitor) => {
+        const duplicates = findDuplicateMembers({ name: visitor.name, phone: visitor.phone }, membersRef.current);
+        const duplicateNotice = duplicates.length > 0
+            ? `\n\n⚠️ 이미 등록된 교인과 중복일 수 있습니다: ${duplicates.map(({ member, reason }) => `${member.name}(${reason})`).join(', ')}`
+            : '';
+        if (!window.confirm(`'${visitor.name}'님을 새가족 교인으로 등록하시겠습니까? 방문 기록 ${visitor.visits.length}회는 출석 기록으로 옮겨집니다.${duplicateNotice}`)) return;
+        commitMembers('새가족 등록', prevMembers => {
+            const attendance = visitor.visits.reduce<Member['attendance']>((acc, visit) => updateAttendance(acc, visit.date, visit.serviceId, '출석'), {});
+            const notes = [visitor.inviter && `인도자: ${visitor.inviter}`, visitor.source && `방문 경로: ${visitor.source}`, visitor.notes].filter(Boolean).join('\n');
+            const newMember: Member = withProfile({
+                id: allocateMemberId(prevMembers),
+                name: visitor.name,
+                position: '성도',
+                phone: visitor.phone,
+                attendance,
+                ...(visitor.education ? { newFamilyEducation: visitor.education } : {}),
+                visitorId: visitor.id,
+            }, { membershipStatus: '새가족', registeredDate: getTodayString(), notes });
+            return [...prevMembers, newMember].sort((a, b) => a.name.localeCompare(b.name, 'ko'));
+        });
+    }, [commitMembers, allocateMemberId]);
+
+    const handleMemberEducationChange = useCallback((memberId: number, step: NewFamilyStep, done: boolean) => {
+        commitMembers('새가족 교육', prevMembers =>
+            prevMembers.map(m => {
+                if (m.id !== memberId) return m;
+                const { newFamilyEducation, ...rest } = m;
+                const education = toggleEducationStep(newFamilyEducation, step, done);
+                return education ? { ...rest, newFamilyEducation: education } : rest;
+            })
+        );
+    }, [commitMembers]);
+
+    const handleAddExcuse = useCallback((memberId: number, excuse: Omit<AttendanceExcuse, 'id'>) => {
+        commitMembers('기간 사유', prevMembers =>
+            prevMembers.map(m => {
+                if (m.id !== memberId) return m;
+                const excuses = m.excuses || [];
+                const id = (excuses.length > 0 ? Math.max(...excuses.map(x => x.id)) : 0) + 1;
+                return { ...m, excuses: [...excuses, { id, ...excuse }] };
+            })
+        );
+    }, [commitMembers]);
+
+    const handleRemoveExcuse = useCallback((memberId: number, excuse: AttendanceExcuse) => {
+        if (!window.confirm(`${excuse.status} ${excuse.from} ~ ${excuse.to} 기간 사유를 삭제하시겠습니까? 그 기간의 출결은 기록된 그대로 계산됩니다.`)) return;
+        commitMembers('기간 사유 삭제', prevMembers =>
+            prevMembers.map(m => {
+                if (m.id !== memberId) return m;
+                const { excuses = [], ...rest } = m;
+                const remaining = excuses.filter(x => x.id !== excuse.id);
+                return remaining.length > 0 ? { ...rest, excuses: remaining } : rest;
+            })
+        );
+    }, [commitMembers]);
+
+    const handleSelectMembers = useCallback((ids: number[]) => {
+        setSelectedMemberIds(prev => new Set([...prev, ...ids]));
     }, []);
 
     const handleSelectAllVisible = useCallback(() => {
@@ -536,21 +6469,88 @@ const App: FC = () => {
         }
     }, [paginatedMembers, selectedMemberIds]);
 
+    const handleToggleHouseholdSelection = useCallback((household: Household) => {
+        const ids = household.members.map(m => m.id);
+        setSelectedMemberIds(prev => ids.every(id => prev.has(id))
+            ? new Set([...prev].filter(id => !ids.includes(id)))
+            : new Set([...prev, ...ids]));
+    }, []);
+
     const handleClearSelection = useCallback(() => {
         setSelectedMemberIds(new Set());
     }, []);
 
+    const bulkTargets = useMemo(
+        () => (bulkScope === 'selected' ? members.filter(m => selectedMemberIds.has(m.id)) : filteredMembers),
+        [bulkScope, members, selectedMemberIds, filteredMembers]
+    );
+
+    const handleBulkAttendance = useCallback((action: BulkAttendanceAction) => {
+        if (!viewingDate || bulkTargets.length === 0) return;
+        const changes = planBulkAttendance(bulkTargets, viewingDate, viewingService.id, action);
+        if (changes.length === 0) {
+            alert('바뀌는 출석 기록이 없습니다.');
+            return;
+        }
+        const notes = [
+            action === 'copyPrevious' ? `${addDays(viewingDate, -7)} 기록을 아직 체크하지 않은 교인에게만 복사합니다.` : '',
+            action === 'unmarkedAbsent' && viewingDate >= getTodayString() ? '⚠️ 아직 예배가 끝나지 않았을 수 있습니다.' : '',
+        ].filter(Boolean).map(note => `\n${note}`).join('');
+        if (!window.confirm(`${viewingDate} ${viewingService.name} · ${BULK_ATTENDANCE_LABELS[action]}\n\n대상 ${bulkTargets.length}명 중 ${changes.length}명의 출석 기록이 바뀝니다.${notes}\n\n계속하시겠습니까? ('되돌리기'로 취소할 수 있습니다.)`)) return;
+        const statusById = new Map(changes.map(change => [change.memberId, change.status]));
+        commitMembers(`일괄 출결 변경 (${BULK_ATTENDANCE_LABELS[action]})`, prevMembers =>
+            prevMembers.map(member => {
+                const status = statusById.get(member.id);
+                return status ? { ...member, attendance: updateAttendance(member.attendance, viewingDate, viewingService.id, status) } : member;
+            })
+        );
+    }, [bulkTargets, viewingDate, viewingService, commitMembers]);
+
+    const handleBulkPosition = useCallback((position: Position) => {
+        const ids = new Set(bulkTargets.filter(m => m.position !== position).map(m => m.id));
+        if (ids.size === 0) {
+            alert(`대상 교인이 모두 이미 '${position}'입니다.`);
+            return;
+        }
+        if (!window.confirm(`대상 ${bulkTargets.length}명 중 ${ids.size}명의 직분을 '${position}'(으)로 바꿉니다.\n\n계속하시겠습니까?`)) return;
+        commitMembers(`일괄 직분 변경 (${position})`, prevMembers => prevMembers.map(m => (ids.has(m.id) ? { ...m, position } : m)));
+    }, [bulkTargets, commitMembers]);
+
+    const handleBulkDelete = useCallback(() => {
+        if (bulkTargets.length === 0) return;
+        const records = bulkTargets.reduce((sum, m) => sum + flattenAttendance(m.attendance).length, 0);
+        const names = bulkTargets.slice(0, 10).map(m => m.name).join(', ') + (bulkTargets.length > 10 ? ` 외 ${bulkTargets.length - 10}명` : '');
+        if (!window.confirm(`⚠️ ${bulkTargets.length}명(출석 기록 ${records}건)을 삭제합니다.\n${names}\n\n삭제 후에도 '되돌리기'로 복구할 수 있습니다. 계속하시겠습니까?`)) return;
+        const ids = new Set(bulkTargets.map(m => m.id));
+        commitMembers('일괄 삭제', prevMembers =>
+            bulkTargets.reduce((acc, target) => assignHousehold(acc, target.id, { headId: null, makeHead: false }), prevMembers).filter(m => !ids.has(m.id))
+        );
+        setSelectedMemberIds(prev => new Set([...prev].filter(id => !ids.has(id))));
+    }, [bulkTargets, commitMembers]);
+
+    const openComposer = useCallback((recipients: Member[], initialBody?: string) => {
+        setComposer({ recipients, initialBody });
+    }, []);
+
     const handleSendSms = useCallback(() => {
         if (selectedMemberIds.size === 0) return;
         
-        const phoneNumbers = members
-            .filter(m => selectedMemberIds.has(m.id))
-            .map(m => m.phone.replace(/-/g, ''));
-            
-        if (phoneNumbers.length > 0) {
-            window.location.href = `sms:${phoneNumbers.join(',')}`;
-        }
-    }, [selectedMemberIds, members]);
+        const selected = members.filter(m => selectedMemberIds.has(m.id));
+        openComposer(smsPerHousehold ? pickHouseholdContacts(selected, members) : selected);
+    }, [selectedMemberIds, members, smsPerHousehold, openComposer]);
+
+    // Sent messages are kept in each member's history; they are not roster edits, so they bypass undo.
+    const handleMessagesSent = useCallback((messages: SentMessage[], method: string) => {
+        const timestamp = new Date().toISOString();
+        appendChangeLog(messages.map(({ member, body }) => ({
+            timestamp,
+            actor: editorName.trim(),
+            action: '문자 발송',
+            memberId: member.id,
+            memberName: member.name,
+            details: [`${method}: ${body}`],
+        })));
+    }, [appendChangeLog, editorName]);
 
     const handleExportData = useCallback(() => {
         if (members.length === 0) {
@@ -558,14 +6558,15 @@ const App: FC = () => {
             return;
         }
         try {
-            const dataStr = JSON.stringify(members, null, 2);
+            const backup: BackupFile = { format: BACKUP_FORMAT, version: BACKUP_VERSION, exportedAt: new Date().toISOString(), members, services, groups, visitors, specialDays, awardThresholds, messageTemplates };
+            const dataStr = JSON.stringify(backup, null, 2);
 
             // Action 1: Download data as a file
             const dataBlob = new Blob([dataStr], { type: 'application/json' });
             const url = URL.createObjectURL(dataBlob);
             const link = document.createElement('a');
             link.href = url;
-            const today = new Date().toISOString().split('T')[0];
+            const today = getTodayString();
             link.download = `예배출석_${today}.json`;
             document.body.appendChild(link);
             link.click();
@@ -598,7 +6599,7 @@ const App: FC = () => {
             console.error("Failed to export data", error);
             alert('데이터 내보내기에 실패했습니다.');
         }
-    }, [members]);
+    }, [members, services, groups, visitors, specialDays, awardThresholds, messageTemplates]);
 
     const handleImportData = async (event: React.ChangeEvent<HTMLInputElement>) => {
         const file = event.target.files?.[0];
@@ -638,23 +6639,29 @@ const App: FC = () => {
                 throw new Error("파일이 올바른 JSON 형식이 아닙니다. 텍스트 편집기에서 파일 내용을 확인해주세요.");
             }
 
-            const { isValid, error, validatedMembers } = validateImportedData(parsedData);
+            const { backup, error: backupError } = parseBackupFile(parsedData);
+            if (!backup) {
+                throw new Error(backupError || "데이터 구조가 올바르지 않습니다.");
+            }
+            // Services and groups from the file are validated against, and added with the import, before its members.
+            const importServices = backup.services ? addMissingById(services, backup.services) : services;
+            const importGroups = backup.groups ? addMissingById(groups, backup.groups) : groups;
+            const { isValid, error, validatedMembers } = validateImportedData(backup.members, importServices, importGroups);
             if (!isValid || !validatedMembers) {
                 throw new Error(error || "데이터 구조가 올바르지 않습니다.");
             }
-            
-            const confirmation = window.confirm(
-                `총 ${validatedMembers.length}명의 데이터를 가져옵니다.\n\n⚠️ 경고: 이 작업은 현재 앱에 저장된 모든 데이터를 덮어씁니다.\n\n계속하시겠습니까?`
-            );
-
-            if (confirmation) {
-                const sortedMembers = validatedMembers.sort((a, b) => a.name.localeCompare(b.name, 'ko'));
-                setMembers(sortedMembers);
-                handleResetFilters();
-                alert(`✅ 성공적으로 ${validatedMembers.length}명의 데이터를 가져왔습니다! 화면이 초기화됩니다.`);
-            } else {
-                alert("데이터 가져오기 작업을 취소했습니다.");
+            const { visitors: importVisitors, error: visitorsError } = backup.visitors === null ? { visitors: null, error: null } : validateImportedVisitors(backup.visitors, importServices);
+            if (visitorsError) {
+                throw new Error(visitorsError);
             }
+            // Versioned backups were written after the date-key fix, so only bare-array files are repaired.
+            const { members: repairedMembers, repairs } = backup.services ? { members: validatedMembers, repairs: [] } : repairShiftedDateKeys(validatedMembers, importServices);
+            setPendingImport({ source: file.name, members: repairedMembers, repairs, services: importServices, groups: importGroups,
+                ...(importVisitors ? { visitors: importVisitors } : {}),
+                ...(backup.specialDays ? { specialDays: backup.specialDays } : {}),
+                ...(backup.awardThresholds ? { awardThresholds: backup.awardThresholds } : {}),
+                ...(backup.messageTemplates ? { messageTemplates: backup.messageTemplates } : {}),
+            });
 
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : "알 수 없는 오류가 발생했습니다.";
@@ -665,12 +6672,120 @@ const App: FC = () => {
         }
     };
 
+    const handleSpreadsheetImport = useCallback((importedMembers: Member[]) => {
+        setIsSpreadsheetImportOpen(false);
+        setPendingImport({ source: '엑셀/CSV 파일', members: importedMembers, repairs: [] });
+    }, []);
+
+    const handleApplyImport = useCallback((importedMembers: Member[], mode: 'merge' | 'replace') => {
+        if (pendingImport?.services && pendingImport.services !== services) {
+            setServices(pendingImport.services);
+        }
+        if (pendingImport?.groups && pendingImport.groups !== groups) {
+            setGroups(pendingImport.groups);
+        }
+        const importedVisitors = pendingImport?.visitors;
+        if (importedVisitors) {
+            setVisitors(prev => (mode === 'replace' ? importedVisitors : addMissingById(prev, importedVisitors)));
+        }
+        if (pendingImport?.specialDays) {
+            setSpecialDays(mode === 'replace' ? pendingImport.specialDays : addMissingSpecialDays(specialDays, pendingImport.specialDays));
+        }
+        if (pendingImport?.messageTemplates) {
+            setMessageTemplates(mode === 'replace' ? pendingImport.messageTemplates : addMissingById(messageTemplates, pendingImport.messageTemplates));
+        }
+        if (pendingImport?.awardThresholds && mode === 'replace') {
+            setAwardThresholds(pendingImport.awardThresholds);
+        }
+        commitMembers(mode === 'merge' ? '가져오기(병합)' : '가져오기(덮어쓰기)', () => [...importedMembers].sort((a, b) => a.name.localeCompare(b.name, 'ko')));
+        if (pendingImport && pendingImport.repairs.length > 0) {
+            setDateRepairs(pendingImport.repairs);
+        }
+        setPendingImport(null);
+        handleResetFilters();
+        alert(mode === 'merge'
+            ? `✅ 가져온 데이터를 병합했습니다. 현재 ${importedMembers.length}명의 교인이 등록되어 있습니다.`
+            : `✅ 성공적으로 ${importedMembers.length}명의 데이터를 가져왔습니다! 화면이 초기화됩니다.`);
+    }, [pendingImport, services, groups, specialDays, messageTemplates, commitMembers, handleResetFilters]);
+
+    const handleRestoreSnapshot = useCallback((snapshot: Snapshot) => {
+        // Keep current services and groups and add any the snapshot refers to that have since been removed.
+        const missingServices = snapshot.services.filter(s => !services.some(current => current.id === s.id));
+        if (missingServices.length > 0) {
+            setServices([...services, ...missingServices]);
+        }
+        const missingGroups = (snapshot.groups || []).filter(g => !groups.some(current => current.id === g.id));
+        if (missingGroups.length > 0) {
+            setGroups([...groups, ...missingGroups]);
+        }
+        // Visitors are not part of undo, so deleted ones come back but those recorded since are kept.
+        if (snapshot.visitors) {
+            setVisitors(prev => addMissingById(prev, snapshot.visitors!));
+        }
+        if (snapshot.specialDays) {
+            setSpecialDays(addMissingSpecialDays(specialDays, snapshot.specialDays));
+        }
+        if (snapshot.messageTemplates) {
+            setMessageTemplates(addMissingById(messageTemplates, snapshot.messageTemplates));
+        }
+        // A single setting has nothing to merge, so it is taken from the snapshot.
+        if (snapshot.awardThresholds) {
+            setAwardThresholds(snapshot.awardThresholds);
+        }
+        commitMembers(`스냅샷 복원 (${formatTimestamp(snapshot.createdAt)})`, () => [...snapshot.members].sort((a, b) => a.name.localeCompare(b.name, 'ko')));
+        setIsSnapshotRestoreOpen(false);
+        alert(`✅ ${formatTimestamp(snapshot.createdAt)} 시점의 데이터로 복원했습니다.`);
+    }, [services, groups, specialDays, messageTemplates, commitMembers]);
+
+    const handleMergeMembers = useCallback((targetId: number, sourceId: number, rule: MemberMergeRule) => {
+        // The leader handover is part of the same undo step as the merge.
+        commitMembers('교인 병합', prevMembers => mergeMembers(prevMembers, targetId, sourceId, rule),
+            prevGroups => (prevGroups.some(g => g.leaderId === sourceId) ? prevGroups.map(g => (g.leaderId === sourceId ? { ...g, leaderId: targetId } : g)) : prevGroups));
+        setSelectedMemberIds(prev => {
+            const newSet = new Set(prev);
+            newSet.delete(sourceId);
+            return newSet;
+        });
+        setIsMemberMergeOpen(false);
+    }, [commitMembers]);
+
     const triggerImport = useCallback(() => {
         fileInputRef.current?.click();
     }, []);
 
 
-    const attendanceHeader = viewingDate === getTodayString() ? '금일 출결' : '선택일 출결';
+    const attendanceHeader = `${viewingDate === getTodayString() ? '금일' : '선택일'} ${viewingService.name} 출결`;
+    const viewingStatus = (member: Member) => getEffectiveStatus(member, viewingDate, viewingService.id);
+
+    const dataManagementSection = (
+        <section className="data-management" aria-labelledby="data-management-title">
+            <div className="data-management-header">
+                <h2 id="data-management-title">⚠️ 데이터 백업 (매우 중요)</h2>
+                <p className="data-management-description">
+                   모든 데이터는 브라우저에 자동 저장됩니다. 하지만, <strong>제가 새로운 기능을 추가해 드릴 때마다 이 데이터가 초기화될 수 있습니다.</strong><br/>
+                   따라서, 중요한 작업을 마치신 후에는 반드시 <strong>아래 '내보내기' 버튼으로 데이터를 파일로 백업</strong>해주세요.
+                </p>
+                <p className="data-management-description">
+                   브라우저 안에도 최근 {DAILY_SNAPSHOT_COUNT}일치 일간 스냅샷과 {MONTHLY_SNAPSHOT_COUNT}개월치 월간 스냅샷이 자동으로 보관되어, '자동 스냅샷에서 복원'으로 되살릴 수 있습니다. (브라우저 데이터를 지우면 스냅샷도 함께 지워집니다.)
+                </p>
+            </div>
+            <div className="data-buttons">
+                <button className="btn" onClick={handleExportData}>데이터 파일로 내보내기</button>
+                <button className="btn" onClick={triggerImport}>파일에서 데이터 가져오기</button>
+                <button className="btn" onClick={() => setIsSnapshotRestoreOpen(true)}>자동 스냅샷에서 복원</button>
+                <button className="btn" onClick={() => setIsMemberMergeOpen(true)}>중복 교인 병합</button>
+                <button className="btn" onClick={() => setIsSpreadsheetExportOpen(true)}>엑셀/CSV 내보내기</button>
+                <button className="btn" onClick={() => setIsSpreadsheetImportOpen(true)}>엑셀/CSV 가져오기</button>
+                <input
+                    type="file"
+                    ref={fileInputRef}
+                    onChange={handleImportData}
+                    style={{ display: 'none' }}
+                    accept="application/json"
+                />
+            </div>
+        </section>
+    );
 
     return (
         <div className="app-container">
@@ -700,166 +6815,475 @@ const App: FC = () => {
                     <span className={`save-status ${saveStatus === 'saved' ? 'visible' : ''}`} aria-live="polite">
                         자동 저장됨
                     </span>
+                    <input
+                        className="editor-name-input"
+                        value={editorName}
+                        onChange={e => setEditorName(e.target.value)}
+                        placeholder="기록자 이름"
+                        aria-label="기록자 이름 (변경 기록에 남습니다)"
+                        title="변경 기록에 남길 기록자 이름"
+                    />
+                    <div className="history-buttons">
+                        <button className="btn" onClick={handleUndo} disabled={undoStack.length === 0} title={undoStack.length > 0 ? `되돌리기: ${undoStack[undoStack.length - 1].label} (Ctrl+Z)` : '되돌릴 작업이 없습니다'} aria-label="되돌리기">↶</button>
+                        <button className="btn" onClick={handleRedo} disabled={redoStack.length === 0} title={redoStack.length > 0 ? `다시 실행: ${redoStack[redoStack.length - 1].label} (Ctrl+Shift+Z)` : '다시 실행할 작업이 없습니다'} aria-label="다시 실행">↷</button>
+                    </div>
+                    <button className="btn" onClick={() => setIsPrintSheetOpen(true)}>
+                        출석부 인쇄
+                    </button>
                     <button className="btn" onClick={() => setIsAddModalOpen(true)}>
                         새 교인 추가
                     </button>
                 </div>
             </header>
             <main>
-                <div className="year-navigator">
-                    <button onClick={() => setYear(y => y - 1)} aria-label="이전 연도">&lt;</button>
-                    <h2 aria-live="polite">{year}년</h2>
-                    <button onClick={() => setYear(y => y + 1)} aria-label="다음 연도">&gt;</button>
-                </div>
-                <YearlySundayCalendar year={year} selectedDate={viewingDate} onDateSelect={setViewingDate} />
-
-                <section className="attendance-quick-filter" aria-label="출결 빠른 필터">
-                    <button className="btn btn-present-view" onClick={() => setStatusFilter('출석')} disabled={!viewingDate}>출석 보기</button>
-                    <button className="btn btn-absent-view" onClick={() => setStatusFilter('결석')} disabled={!viewingDate}>결석 보기</button>
-                    <button className="btn" onClick={handleResetFilters}>초기화</button>
-                </section>
-                
-                <div className="main-controls-container">
-                    <section className="attendance-status-filter" aria-label="출결별 필터링">
-                        <div className="filter-group">
-                            <h2>{attendanceHeader}별 보기</h2>
-                            <div className="filter-buttons">
-                                <button className={`btn ${statusFilter === ALL_FILTER ? 'active' : ''}`} onClick={() => setStatusFilter(ALL_FILTER)}>{ALL_FILTER} ({attendanceCounts.total})</button>
-                                {ATTENDANCE_STATUSES.map(status => {
-                                    const count = status === '출석' ? attendanceCounts.present : attendanceCounts.absent;
-                                    return (
-                                        <button key={status} className={`btn ${statusFilter === status ? 'active' : ''}`} onClick={() => setStatusFilter(status)}>{status} ({count})</button>
-                                    );
-                                })}
+                {storageError && (
+                    <StorageErrorBanner message={storageError} onBackup={handleExportData} onDismiss={() => setStorageError(null)} />
+                )}
+                {dateRepairs.length > 0 && (
+                    <DateRepairNotice repairs={dateRepairs} onDismiss={() => setDateRepairs([])} />
+                )}
+                <nav className="view-tabs" aria-label="화면 전환">
+                    <button className={`view-tab ${activeView === 'roster' ? 'active' : ''}`} onClick={() => navigate({ view: 'roster', date: viewingDate })} aria-pressed={activeView === 'roster'}>출석부</button>
+                    <button className={`view-tab ${activeView === 'checkin' ? 'active' : ''}`} onClick={() => navigate({ view: 'checkin', date: viewingDate })} aria-pressed={activeView === 'checkin'}>체크인</button>
+                    <button className={`view-tab ${activeView === 'visitors' ? 'active' : ''}`} onClick={() => navigate({ view: 'visitors', date: viewingDate })} aria-pressed={activeView === 'visitors'}>새가족</button>
+                    <button className={`view-tab ${activeView === 'groups' ? 'active' : ''}`} onClick={() => navigate({ view: 'groups', date: viewingDate })} aria-pressed={activeView === 'groups'}>소그룹</button>
+                    <button className={`view-tab ${activeView === 'stats' ? 'active' : ''}`} onClick={() => navigate({ view: 'stats' })} aria-pressed={activeView === 'stats'}>통계</button>
+                    <button className={`view-tab ${activeView === 'absentees' ? 'active' : ''}`} onClick={() => navigate({ view: 'absentees' })} aria-pressed={activeView === 'absentees'}>
+                        장기 결석 {absentees.length > 0 && <span className="view-tab-badge">{absentees.length}</span>}
+                    </button>
+                    <button className={`view-tab ${activeView === 'settings' ? 'active' : ''}`} onClick={() => navigate({ view: 'settings' })} aria-pressed={activeView === 'settings'}>설정</button>
+                </nav>
+                {activeView !== 'member' && activeView !== 'settings' && (
+                    <div className="year-navigator">
+                        <button onClick={() => setYear(y => y - 1)} aria-label="이전 연도">&lt;</button>
+                        <h2 aria-live="polite">{year}년</h2>
+                        <button onClick={() => setYear(y => y + 1)} aria-label="다음 연도">&gt;</button>
+                    </div>
+                )}
+                {route.view === 'member' ? (
+                    routeMember ? (
+                        <MemberDetailPage
+                            member={routeMember}
+                            services={services}
+                            heldServices={heldServices}
+                            changeLog={changeLog.filter(entry => entry.memberId === routeMember.id).reverse()}
+                            onEdit={setEditingMember}
+                            onAddFollowUp={setFollowUpMember}
+                            onAddExcuse={handleAddExcuse}
+                            onRemoveExcuse={handleRemoveExcuse}
+                        />
+                    ) : (
+                        <section className="member-page">
+                            <p className="no-members">교인을 찾을 수 없습니다. 삭제되었거나 병합된 교인일 수 있습니다.</p>
+                            <a className="btn" href="#/">&lt; 출석부</a>
+                        </section>
+                    )
+                ) : activeView === 'settings' ? (
+                <>
+                    <section className="settings-page" aria-labelledby="settings-title">
+                        <h2 id="settings-title">설정</h2>
+                        <div className="settings-item">
+                            <div>
+                                <h3>예배</h3>
+                                <p className="form-hint">{services.map(s => `${s.name}(${WEEKDAY_NAMES[s.dayOfWeek]})`).join(', ')}</p>
                             </div>
+                            <button className="btn" onClick={() => setIsServiceSettingsOpen(true)}>예배 설정</button>
                         </div>
-                    </section>
-                    
-                    <section className="position-filter-section" aria-label="필터링 옵션">
-                        <div className="filter-group">
-                            <h2>직분별 보기</h2>
-                            <select
-                                className="position-filter-select"
-                                value={positionFilter}
-                                onChange={(e) => setPositionFilter(e.target.value)}
-                                aria-label="직분으로 필터링"
-                            >
-                                <option value={ALL_FILTER}>{ALL_FILTER}</option>
-                                {POSITIONS.map((pos) => (
-                                    <option key={pos} value={pos}>
-                                        {pos}
-                                    </option>
-                                ))}
-                            </select>
+                        <div className="settings-item">
+                            <div>
+                                <h3>구역·셀·부서</h3>
+                                <p className="form-hint">{groups.length > 0 ? GROUP_KINDS.map(kind => `${kind} ${groups.filter(g => g.kind === kind).length}개`).join(' · ') : '등록된 소그룹이 없습니다.'}</p>
+                            </div>
+                            <button className="btn" onClick={() => setIsGroupSettingsOpen(true)}>소그룹 설정</button>
+                        </div>
+                        <div className="settings-item">
+                            <div>
+                                <h3>특별일</h3>
+                                <p className="form-hint">휴예배, 연합·야외 예배, 송구영신·부활절 새벽·추석 예배, 특별새벽기도를 달력에 표시합니다. {year}년 {specialDays.filter(day => day.date.startsWith(`${year}-`)).length}일 지정됨.</p>
+                            </div>
+                            <button className="btn" onClick={() => setIsSpecialDaySettingsOpen(true)}>특별일 설정</button>
                         </div>
                     </section>
+                    {dataManagementSection}
+                </>
+                ) : activeView === 'stats' ? (
+                    <AttendanceDashboard members={members} services={services} heldServices={heldServices} year={year} positionFilter={positionFilter} onPositionFilterChange={setPositionFilter} onOpenAwards={() => setIsAwardsReportOpen(true)} />
+                ) : activeView === 'checkin' ? (
+                <>
+                    <ServiceSelector services={services} selectedServiceId={viewingService.id} onServiceSelect={handleServiceSelect} onOpenSettings={() => setIsServiceSettingsOpen(true)} />
+                    <YearlySundayCalendar year={year} dayOfWeek={viewingService.dayOfWeek} specialDays={specialDays} selectedDate={viewingDate} onDateSelect={setViewingDate} onEditSpecialDays={() => setIsSpecialDaySettingsOpen(true)} />
+                    <CheckInView members={members} heldServices={heldServices} date={viewingDate} service={viewingService} visitorCount={visitorCount} onAttendanceChange={handleAttendanceChange} onViewMember={setViewingMember} />
+                </>
+                ) : activeView === 'visitors' ? (
+                <>
+                    <ServiceSelector services={services} selectedServiceId={viewingService.id} onServiceSelect={handleServiceSelect} onOpenSettings={() => setIsServiceSettingsOpen(true)} />
+                    <YearlySundayCalendar year={year} dayOfWeek={viewingService.dayOfWeek} specialDays={specialDays} selectedDate={viewingDate} onDateSelect={setViewingDate} onEditSpecialDays={() => setIsSpecialDaySettingsOpen(true)} />
+                    <VisitorsView
+                        visitors={visitors}
+                        members={members}
+                        services={services}
+                        heldServices={heldServices}
+                        date={viewingDate}
+                        service={viewingService}
+                        onAddVisitor={handleAddVisitor}
+                        onUpdateVisitor={handleUpdateVisitor}
+                        onDeleteVisitor={handleDeleteVisitor}
+                        onPromoteVisitor={handlePromoteVisitor}
+                        onMemberEducationChange={handleMemberEducationChange}
+                        onViewMember={setViewingMember}
+                    />
+                </>
+                ) : activeView === 'groups' ? (
+                <>
+                    <ServiceSelector services={services} selectedServiceId={viewingService.id} onServiceSelect={handleServiceSelect} onOpenSettings={() => setIsServiceSettingsOpen(true)} />
+                    <YearlySundayCalendar year={year} dayOfWeek={viewingService.dayOfWeek} specialDays={specialDays} selectedDate={viewingDate} onDateSelect={setViewingDate} onEditSpecialDays={() => setIsSpecialDaySettingsOpen(true)} />
+                    <GroupAttendanceView
+                        members={members}
+                        groups={groups}
+                        heldServices={heldServices}
+                        date={viewingDate}
+                        service={viewingService}
+                        onAttendanceChange={handleAttendanceChange}
+                        onViewMember={setViewingMember}
+                        onOpenSettings={() => setIsGroupSettingsOpen(true)}
+                    />
+                </>
+                ) : activeView === 'absentees' ? (
+                    <AbsenteeList
+                        absentees={absentees}
+                        threshold={absenteeThreshold}
+                        onThresholdChange={setAbsenteeThreshold}
+                        selectedMemberIds={selectedMemberIds}
+                        onSelectionChange={handleSelectionChange}
+                        onSelectMembers={handleSelectMembers}
+                        onSendSms={handleSendSms}
+                        onAddFollowUp={setFollowUpMember}
+                        onViewMember={setViewingMember}
+                    />
+                ) : (
+                <>
+                    <ServiceSelector services={services} selectedServiceId={viewingService.id} onServiceSelect={handleServiceSelect} onOpenSettings={() => setIsServiceSettingsOpen(true)} />
+                    <YearlySundayCalendar year={year} dayOfWeek={viewingService.dayOfWeek} specialDays={specialDays} selectedDate={viewingDate} onDateSelect={setViewingDate} onEditSpecialDays={() => setIsSpecialDaySettingsOpen(true)} />
+                    <CelebrationPanel members={members} selectedDate={viewingDate} onSendSms={openComposer} onViewMember={setViewingMember} />
 
-                    <section className="actions" aria-label="일괄 작업">
-                        <div className="actions-bar">
-                            <span className="selection-info">{selectedMemberIds.size}명 선택됨</span>
-                            <button className="btn" onClick={handleSelectAllVisible} disabled={paginatedMembers.length === 0}>
-                                {paginatedMembers.length > 0 && paginatedMembers.every(m => selectedMemberIds.has(m.id)) ? '현재 페이지 해제' : '현재 페이지 선택'}
-                            </button>
-                            <button className="btn" onClick={handleClearSelection} disabled={selectedMemberIds.size === 0}>
-                            선택 해제
-                            </button>
-                            <button className="btn btn-sms" onClick={handleSendSms} disabled={selectedMemberIds.size === 0}>
-                                단체 문자
-                            </button>
-                        </div>
+                    <section className="attendance-quick-filter" aria-label="출결 빠른 필터">
+                        <button className="btn btn-present-view" onClick={() => setStatusFilter('출석')} disabled={!viewingDate}>출석 보기</button>
+                        <button className="btn btn-absent-view" onClick={() => setStatusFilter('결석')} disabled={!viewingDate}>결석 보기</button>
+                        <button className="btn" onClick={handleResetFilters}>초기화</button>
                     </section>
-                </div>
+                
+                    <div className="main-controls-container">
+                        <section className="attendance-status-filter" aria-label="출결별 필터링">
+                            <div className="filter-group">
+                                <h2>{attendanceHeader}별 보기</h2>
+                                <div className="filter-buttons">
+                                    <button className={`btn ${statusFilter === ALL_FILTER ? 'active' : ''}`} onClick={() => setStatusFilter(ALL_FILTER)}>{ALL_FILTER} ({attendanceCounts.total})</button>
+                                    {ATTENDANCE_STATUSES.map(status => {
+                                        const count = attendanceCounts.byStatus[status];
+                                        // The rarer statuses only get a button once someone has them, to keep the bar short.
+                                        if (count === 0 && statusFilter !== status && status !== '출석' && status !== '결석') return null;
+                                        return (
+                                            <button key={status} className={`btn ${statusFilter === status ? 'active' : ''}`} onClick={() => setStatusFilter(status)} title={OUTCOME_LABELS[ATTENDANCE_OUTCOMES[status]]}>{status} ({count})</button>
+                                        );
+                                    })}
+                                </div>
+                                <a className="visitor-count-link" href="#/visitors" title="방문자는 교인 수와 출석률에 포함되지 않습니다">방문자 {visitorCount}명</a>
+                            </div>
+                        </section>
+                    
+                        <section className="position-filter-section" aria-label="필터링 옵션">
+                            <div className="filter-group">
+                                <h2>직분별 보기</h2>
+                                <select
+                                    className="position-filter-select"
+                                    value={positionFilter}
+                                    onChange={(e) => setPositionFilter(e.target.value)}
+                                    aria-label="직분으로 필터링"
+                                >
+                                    <option value={ALL_FILTER}>{ALL_FILTER}</option>
+                                    {POSITIONS.map((pos) => (
+                                        <option key={pos} value={pos}>
+                                            {pos}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                        </section>
 
-                <div className="table-container">
-                    <table className="member-table">
-                        <thead>
-                            <tr>
-                                <th className="col-checkbox"><input type="checkbox" onChange={handleSelectAllVisible} checked={paginatedMembers.length > 0 && paginatedMembers.every(m => selectedMemberIds.has(m.id))} aria-label="현재 페이지 전체 선택" /></th>
-                                <th className="col-tight">이름</th>
-                                <th className="col-tight">직분</th>
-                                <th className="col-tight">{attendanceHeader}</th>
-                                <th>전화번호</th>
-                                <th>수정</th>
-                                <th>삭제</th>
-                            </tr>
-                        </thead>
-                        <tbody>
-                            {paginatedMembers.length > 0 ? (
-                                paginatedMembers.map(member => (
-                                    <tr key={member.id}>
-                                        <td className="col-checkbox"><input type="checkbox" checked={selectedMemberIds.has(member.id)} onChange={() => handleSelectionChange(member.id)} aria-label={`${member.name} 선택`} /></td>
-                                        <td className="member-name-link col-tight" onClick={() => setViewingMember(member)}>{member.name}</td>
-                                        <td className="col-tight">{member.position}</td>
-                                        <td className="attendance-cell col-tight">
-                                            <div className="attendance-buttons">
-                                                <button
-                                                    className={`btn-attendance btn-present ${member.attendance[viewingDate] === '출석' ? 'active' : ''}`}
-                                                    onClick={() => handleAttendanceChange(member.id, viewingDate, member.attendance[viewingDate] === '출석' ? '미정' : '출석')}
-                                                >
-                                                    출석
-                                                </button>
-                                                <button
-                                                    className={`btn-attendance btn-absent ${member.attendance[viewingDate] === '결석' ? 'active' : ''}`}
-                                                    onClick={() => handleAttendanceChange(member.id, viewingDate, member.attendance[viewingDate] === '결석' ? '미정' : '결석')}
-                                                >
-                                                    결석
-                                                </button>
-                                            </div>
-                                        </td>
-                                        <td>{member.phone}</td>
-                                        <td><button className="btn btn-edit" onClick={() => setEditingMember(member)}>수정</button></td>
-                                        <td><button className="btn btn-delete" onClick={() => handleDeleteMember(member)}>삭제</button></td>
-                                    </tr>
-                                ))
-                            ) : (
+                        <section className="group-filter-section" aria-label="교적 상태별 보기">
+                            <div className="filter-group">
+                                <h2>교적 상태</h2>
+                                <select
+                                    className="position-filter-select"
+                                    value={membershipFilter}
+                                    onChange={(e) => setMembershipFilter(e.target.value)}
+                                    aria-label="교적 상태로 필터링"
+                                >
+                                    <option value={ACTIVE_MEMBERS_FILTER}>{ACTIVE_MEMBERS_FILTER} (재적·새가족)</option>
+                                    <option value={ALL_FILTER}>{ALL_FILTER}</option>
+                                    {MEMBERSHIP_STATUSES.map(status => <option key={status} value={status}>{status}</option>)}
+                                </select>
+                            </div>
+                        </section>
+
+                        <section className="group-filter-section" aria-label="소그룹별 보기">
+                            <div className="filter-group">
+                                <h2>소그룹별 보기</h2>
+                                <select
+                                    className="position-filter-select"
+                                    value={groupFilter}
+                                    onChange={(e) => setGroupFilter(e.target.value)}
+                                    aria-label="소그룹으로 필터링"
+                                >
+                                    <option value={ALL_FILTER}>{ALL_FILTER}</option>
+                                    <option value={NO_GROUP_FILTER}>소속 없음</option>
+                                    {GROUP_KINDS.map(kind => groups.some(g => g.kind === kind) && (
+                                        <optgroup key={kind} label={kind}>
+                                            {groups.filter(g => g.kind === kind).map(g => <option key={g.id} value={g.id}>{g.name}</option>)}
+                                        </optgroup>
+                                    ))}
+                                </select>
+                            </div>
+                        </section>
+
+                        <section className="household-filter-section" aria-label="가구별 보기">
+                            <div className="filter-group">
+                                <h2>가구별 보기</h2>
+                                <select
+                                    className="position-filter-select"
+                                    value={householdFilter}
+                                    onChange={(e) => setHouseholdFilter(e.target.value)}
+                                    aria-label="가구로 필터링"
+                                >
+                                    <option value={ALL_FILTER}>{ALL_FILTER}</option>
+                                    <option value={NO_HOUSEHOLD_FILTER}>가구 미지정</option>
+                                    {households.map(h => (
+                                        <option key={h.headId} value={h.headId}>{h.name} ({h.members.length}명)</option>
+                                    ))}
+                                </select>
+                                <label className="form-checkbox">
+                                    <input type="checkbox" checked={groupByHousehold} onChange={e => setGroupByHousehold(e.target.checked)} />
+                                    가구별로 묶기
+                                </label>
+                            </div>
+                        </section>
+
+                        <section className="actions" aria-label="일괄 작업">
+                            <div className="actions-bar">
+                                <span className="selection-info">{selectedMemberIds.size}명 선택됨</span>
+                                <button className="btn" onClick={handleSelectAllVisible} disabled={paginatedMembers.length === 0}>
+                                    {paginatedMembers.length > 0 && paginatedMembers.every(m => selectedMemberIds.has(m.id)) ? '현재 페이지 해제' : '현재 페이지 선택'}
+                                </button>
+                                <button className="btn" onClick={handleClearSelection} disabled={selectedMemberIds.size === 0}>
+                                선택 해제
+                                </button>
+                                <button className="btn btn-sms" onClick={handleSendSms} disabled={selectedMemberIds.size === 0}>
+                                    단체 문자
+                                </button>
+                                <label className="form-checkbox" title="가구주(없으면 선택된 가족 중 한 명)에게만 보냅니다">
+                                    <input type="checkbox" checked={smsPerHousehold} onChange={e => setSmsPerHousehold(e.target.checked)} />
+                                    가구당 한 번호로
+                                </label>
+                            </div>
+                            <div className="actions-bar bulk-actions-bar">
+                                <select value={bulkScope} onChange={e => setBulkScope(e.target.value as 'selected' | 'filtered')} aria-label="일괄 작업 대상">
+                                    <option value="selected">선택한 교인 ({selectedMemberIds.size}명)</option>
+                                    <option value="filtered">현재 필터 결과 ({filteredMembers.length}명)</option>
+                                </select>
+                                {(['출석', '결석', 'unmarkedAbsent', 'clear', 'copyPrevious'] as const).map(action => (
+                                    <button key={action} className="btn" onClick={() => handleBulkAttendance(action)} disabled={!viewingDate || bulkTargets.length === 0}>
+                                        {BULK_ATTENDANCE_LABELS[action]}
+                                    </button>
+                                ))}
+                                <select value="" onChange={e => e.target.value && handleBulkPosition(e.target.value as Position)} disabled={bulkTargets.length === 0} aria-label="직분 일괄 변경">
+                                    <option value="">직분 변경…</option>
+                                    {POSITIONS.map(pos => <option key={pos} value={pos}>{pos}</option>)}
+                                </select>
+                                <button className="btn btn-delete" onClick={handleBulkDelete} disabled={bulkTargets.length === 0}>일괄 삭제</button>
+                            </div>
+                        </section>
+                    </div>
+
+                    <div className="table-toolbar">
+                        <input
+                            type="search"
+                            className="table-search"
+                            value={searchQuery}
+                            onChange={e => setSearchQuery(e.target.value)}
+                            placeholder="이름, 초성 또는 전화번호로 검색"
+                            aria-label="교인 검색"
+                        />
+                        <span className="selection-info">{filteredMembers.length}명</span>
+                        <label className="page-size-select">
+                            페이지당
+                            <select value={pageSize} onChange={e => setPageSize(Number(e.target.value))}>
+                                {PAGE_SIZE_OPTIONS.map(size => <option key={size} value={size}>{size}명</option>)}
+                                <option value={SHOW_ALL_PAGE_SIZE}>전체</option>
+                            </select>
+                        </label>
+                    </div>
+
+                    <div className="table-container">
+                        <table className="member-table">
+                            <thead>
                                 <tr>
-                                    <td colSpan={7} className="no-members">해당 조건에 맞는 교인이 없습니다.</td>
+                                    <th className="col-checkbox"><input type="checkbox" onChange={handleSelectAllVisible} checked={paginatedMembers.length > 0 && paginatedMembers.every(m => selectedMemberIds.has(m.id))} aria-label="현재 페이지 전체 선택" /></th>
+                                    {([['name', '이름'], ['position', '직분']] as const).map(([key, label]) => (
+                                        <th key={key} className="col-tight" aria-sort={sortKey === key && !groupByHousehold ? (sortDirection === 'asc' ? 'ascending' : 'descending') : undefined}>
+                                            <button className="sort-button" onClick={() => handleSort(key)} disabled={groupByHousehold} title={groupByHousehold ? '가구별로 묶는 동안에는 정렬할 수 없습니다' : undefined}>
+                                                {label}{sortKey === key && !groupByHousehold && (sortDirection === 'asc' ? ' ▲' : ' ▼')}
+                                            </button>
+                                        </th>
+                                    ))}
+                                    <th className="col-tight">{attendanceHeader}</th>
+                                    <th className="col-tight" aria-sort={sortKey === 'rate' && !groupByHousehold ? (sortDirection === 'asc' ? 'ascending' : 'descending') : undefined}>
+                                        <button className="sort-button" onClick={() => handleSort('rate')} disabled={groupByHousehold}>
+                                            출석률{sortKey === 'rate' && !groupByHousehold && (sortDirection === 'asc' ? ' ▲' : ' ▼')}
+                                        </button>
+                                        <select className="rate-period-select" value={ratePeriod} onChange={e => setRatePeriod(e.target.value as RatePeriod)} aria-label="출석률 기간">
+                                            <option value="month">{Number((viewingDate || getTodayString()).slice(5, 7))}월</option>
+                                            <option value="year">{year}년</option>
+                                        </select>
+                                    </th>
+                                    <th>전화번호</th>
+                                    <th>수정</th>
+                                    <th>삭제</th>
                                 </tr>
-                            )}
-                        </tbody>
-                    </table>
-                </div>
+                            </thead>
+                            <tbody>
+                                {paginatedMembers.length > 0 ? (
+                                    paginatedMembers.map((member, index) => {
+                                        const household = member.householdHeadId !== undefined ? households.find(h => h.headId === member.householdHeadId) : undefined;
+                                        const startsGroup = groupByHousehold && household && paginatedMembers[index - 1]?.householdHeadId !== member.householdHeadId;
+                                        const rate = memberRates.get(member.id) ?? null;
+                                        return (
+                                        <React.Fragment key={member.id}>
+                                        {startsGroup && (
+                                            <tr className="household-row">
+                                                <td className="col-checkbox"><input type="checkbox" checked={household.members.every(m => selectedMemberIds.has(m.id))} onChange={() => handleToggleHouseholdSelection(household)} aria-label={`${household.name} 전체 선택`} /></td>
+                                                <td colSpan={7}>
+                                                    <div className="household-row-content">
+                                                        <strong>🏠 {household.name}</strong>
+                                                        <span className="household-row-count">{household.members.length}명</span>
+                                                        <button className="btn-attendance btn-present" onClick={() => handleHouseholdAttendanceChange(household.headId, viewingDate, viewingService.id, '출석')}>가족 모두 출석</button>
+                                                        <button className="btn-attendance btn-absent" onClick={() => handleHouseholdAttendanceChange(household.headId, viewingDate, viewingService.id, '결석')}>가족 모두 결석</button>
+                                                    </div>
+                                                </td>
+                                            </tr>
+                                        )}
+                                        <tr>
+                                            <td className="col-checkbox"><input type="checkbox" checked={selectedMemberIds.has(member.id)} onChange={() => handleSelectionChange(member.id)} aria-label={`${member.name} 선택`} /></td>
+                                            <td className="member-name-link col-tight" onClick={() => setViewingMember(member)}>
+                                                {member.name}
+                                                {getMembershipStatus(member) !== '재적' && <span className={`membership-badge ${isActiveMember(member) ? '' : 'membership-inactive'}`}>{getMembershipStatus(member)}</span>}
+                                                {member.householdHeadId === member.id && <span className="household-tag" title={household?.name}>가구주</span>}
+                                                {household && !groupByHousehold && (
+                                                    <button className="household-tag household-tag-link" onClick={e => { e.stopPropagation(); setHouseholdFilter(String(household.headId)); }} title={`${household.name}만 보기`}>{household.name}</button>
+                                                )}
+                                            </td>
+                                            <td className="col-tight">{member.position}</td>
+                                            <td className="attendance-cell col-tight">
+                                                <AttendanceButtons
+                                                    member={member}
+                                                    date={viewingDate}
+                                                    status={viewingStatus(member)}
+                                                    onChange={next => handleAttendanceChange(member.id, viewingDate, viewingService.id, next)}
+                                                />
+                                            </td>
+                                            <td className="col-tight rate-cell">{rate === null ? '-' : `${Math.round(rate * 100)}%`}</td>
+                                            <td>{member.phone}</td>
+                                            <td><button className="btn btn-edit" onClick={() => setEditingMember(member)}>수정</button></td>
+                                            <td><button className="btn btn-delete" onClick={() => handleDeleteMember(member)}>삭제</button></td>
+                                        </tr>
+                                        </React.Fragment>
+                                        );
+                                    })
+                                ) : (
+                                    <tr>
+                                        <td colSpan={8} className="no-members">해당 조건에 맞는 교인이 없습니다.</td>
+                                    </tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
                 
-                {totalPages > 1 && (
-                    <Pagination currentPage={currentPage} totalPages={totalPages} onPageChange={setCurrentPage} />
+                    {totalPages > 1 && (
+                        <Pagination currentPage={currentPage} totalPages={totalPages} onPageChange={setCurrentPage} />
+                    )}
+                </>
                 )}
 
                 <section className="manual-save-section">
+                    {activeView !== 'settings' && (
+                        <p className="backup-reminder">
+                            ⚠️ 모든 데이터는 이 브라우저에만 저장됩니다. 중요한 작업을 마친 뒤에는 반드시 파일로 백업해주세요. <a href="#/settings">백업·복원 관리 →</a>
+                        </p>
+                    )}
                     <button className="btn btn-save" onClick={handleExportData}>
                         저장(백업)
                     </button>
                 </section>
                                 
-                <section className="data-management" aria-labelledby="data-management-title">
-                    <div className="data-management-header">
-                        <h2 id="data-management-title">⚠️ 데이터 백업 (매우 중요)</h2>
-                        <p className="data-management-description">
-                           모든 데이터는 브라우저에 자동 저장됩니다. 하지만, <strong>제가 새로운 기능을 추가해 드릴 때마다 이 데이터가 초기화될 수 있습니다.</strong><br/>
-                           따라서, 중요한 작업을 마치신 후에는 반드시 <strong>아래 '내보내기' 버튼으로 데이터를 파일로 백업</strong>해주세요.
-                        </p>
-                    </div>
-                    <div className="data-buttons">
-                        <button className="btn" onClick={handleExportData}>데이터 파일로 내보내기</button>
-                        <button className="btn" onClick={triggerImport}>파일에서 데이터 가져오기</button>
-                        <input
-                            type="file"
-                            ref={fileInputRef}
-                            onChange={handleImportData}
-                            style={{ display: 'none' }}
-                            accept="application/json"
-                        />
-                    </div>
-                </section>
             </main>
-            {isAddModalOpen && ( <AddMemberModal onSave={handleAddMember} onCancel={() => setIsAddModalOpen(false)} /> )}
-            {editingMember && ( <EditMemberModal member={editingMember} onSave={handleSaveMember} onCancel={() => setEditingMember(null)} /> )}
-            {viewingMember && ( <MemberDetailModal member={viewingMember} onClose={() => setViewingMember(null)} /> )}
+            {isAddModalOpen && ( <AddMemberModal members={members} households={households} groups={groups} onSave={handleAddMember} onCancel={() => setIsAddModalOpen(false)} /> )}
+            {editingMember && ( <EditMemberModal member={editingMember} members={members} households={households} groups={groups} onSave={handleSaveMember} onCancel={() => setEditingMember(null)} /> )}
+            {detailMember && (
+                <MemberDetailModal
+                    member={detailMember}
+                    services={services}
+                    changeLog={changeLog.filter(entry => entry.memberId === detailMember.id).reverse()}
+                    heldServices={heldServices}
+                    heldSundays={heldSundays}
+                    specialDays={specialDays}
+                    onAttendanceChange={handleAttendanceChange}
+                    onClose={() => setViewingMember(null)}
+                />
+            )}
+            {isSpreadsheetExportOpen && ( <SpreadsheetExportModal members={members} services={services} heldServices={heldServices} specialDays={specialDays} defaultServiceId={viewingService.id} defaultYear={year} onClose={() => setIsSpreadsheetExportOpen(false)} /> )}
+            {isSpreadsheetImportOpen && ( <SpreadsheetImportModal services={services} defaultServiceId={viewingService.id} defaultYear={year} onImport={handleSpreadsheetImport} onCancel={() => setIsSpreadsheetImportOpen(false)} /> )}
+            {isPrintSheetOpen && ( <PrintSheetModal members={members} services={services} heldServices={heldServices} specialDays={specialDays} positionFilter={positionFilter} initialServiceId={viewingService.id} initialDate={viewingDate} onClose={() => setIsPrintSheetOpen(false)} /> )}
+            {isAwardsReportOpen && (
+                <AttendanceAwardsModal
+                    members={members}
+                    services={services}
+                    heldSundays={heldSundays}
+                    initialYear={year}
+                    thresholds={awardThresholds}
+                    onThresholdsChange={setAwardThresholds}
+                    onClose={() => setIsAwardsReportOpen(false)}
+                />
+            )}
+            {isMemberMergeOpen && ( <MemberMergeModal members={members} onMerge={handleMergeMembers} onClose={() => setIsMemberMergeOpen(false)} /> )}
+            {isSnapshotRestoreOpen && ( <SnapshotRestoreModal db={db} currentMembers={members} services={services} groups={groups} onRestore={handleRestoreSnapshot} onClose={() => setIsSnapshotRestoreOpen(false)} /> )}
+            {pendingImport && ( <MergeImportModal pending={pendingImport} currentMembers={members} services={pendingImport.services || services} onApply={handleApplyImport} onCancel={() => setPendingImport(null)} /> )}
+            {followUpMember && ( <FollowUpModal member={followUpMember} onSave={handleAddFollowUp} onCancel={() => setFollowUpMember(null)} /> )}
+            {composer && (
+                <MessageComposerModal
+                    recipients={composer.recipients}
+                    members={members}
+                    services={services}
+                    heldSundays={heldSundays}
+                    date={viewingDate}
+                    initialBody={composer.initialBody}
+                    templates={messageTemplates}
+                    onSaveTemplates={setMessageTemplates}
+                    onSent={handleMessagesSent}
+                    onClose={() => setComposer(null)}
+                />
+            )}
+            {isGroupSettingsOpen && ( <GroupSettingsModal groups={groups} members={members} onSave={handleSaveGroups} onCancel={() => setIsGroupSettingsOpen(false)} /> )}
+            {isSpecialDaySettingsOpen && ( <SpecialDaySettingsModal specialDays={specialDays} initialYear={year} onSave={handleSaveSpecialDays} onCancel={() => setIsSpecialDaySettingsOpen(false)} /> )}
+            {isServiceSettingsOpen && ( <ServiceSettingsModal services={services} usedServiceIds={usedServiceIds} onSave={handleSaveServices} onCancel={() => setIsServiceSettingsOpen(false)} /> )}
         </div>
     );
 };
 
-const container = document.getElementById('root');
+const container = typeof document !== 'undefined' ? document.getElementById('root') : null;
 if (container) {
     const root = createRoot(container);
-    root.render(<App />);
-}
\ No newline at end of file
+    loadStoredData(() => root.render(<StorageBlockedNotice />)).then(initialData => root.render(<App initialData={initialData} />));
+}
+
+// Pure helpers covered by index.test.ts.
+export type { Member, ServiceType, SpecialDay, ColumnMapping };
+export { findHeldServices, getHeldServiceRecords, findHeldSundays, findLongTermAbsentees, buildAttendanceMatrixRows, planMergeImport, applyMergePlan, validateSpreadsheetRows };